@@ -0,0 +1,219 @@
+import { createElement, useState } from 'react';
+import { act, create } from 'react-test-renderer';
+
+import {
+    MissingFieldError,
+    useFieldChangeHandler,
+    useRecordChangeHandler,
+    useReplaceChangeHandler,
+    useSetChangeHandler,
+    useUnionChangeHandler,
+} from './changeHandlers';
+import {
+    ChangeHandler,
+    ControlledInput,
+    FieldChangeHandler,
+    RecordChangeHandler,
+    SetChangeHandler,
+    UnionChangeHandler,
+} from './interface';
+
+/**
+ * Render a component which holds a value in state and passes it to `hook` as
+ * `ControlledInput` props, as a parent input would.
+ */
+const renderControlled = <T, R>(
+    initialValue: T,
+    hook: (props: ControlledInput<T>) => R,
+    props: Partial<ControlledInput<T>> = {},
+) => {
+    const onChange = jest.fn();
+    const result = { onChange } as {
+        value: T;
+        handlers: R;
+        onChange: jest.Mock;
+    };
+
+    const Host = () => {
+        const [value, setValue] = useState(initialValue);
+        const handleChange: ChangeHandler<T> = (newValue, name) => {
+            onChange(newValue, name);
+            setValue(newValue);
+        };
+        result.value = value;
+        result.handlers = hook({ ...props, value, onChange: handleChange });
+        return null;
+    };
+
+    act(() => {
+        create(createElement(Host));
+    });
+
+    return result;
+};
+
+describe('useFieldChangeHandler', () => {
+    interface Person {
+        first: string;
+        last: string;
+    }
+
+    it('keeps every field update made in the same tick', () => {
+        const result = renderControlled<Person, FieldChangeHandler<Person>>(
+            { first: '', last: '' },
+            useFieldChangeHandler,
+        );
+
+        act(() => {
+            result.handlers('Ada', 'first');
+            result.handlers('Lovelace', 'last');
+        });
+
+        expect(result.value).toEqual({ first: 'Ada', last: 'Lovelace' });
+        expect(result.onChange).toHaveBeenCalledTimes(2);
+    });
+
+    it('builds on the rendered value once the parent has re-rendered', () => {
+        const result = renderControlled<Person, FieldChangeHandler<Person>>(
+            { first: '', last: '' },
+            useFieldChangeHandler,
+        );
+
+        act(() => {
+            result.handlers('Ada', 'first');
+        });
+        act(() => {
+            result.handlers('Lovelace', 'last');
+        });
+
+        expect(result.value).toEqual({ first: 'Ada', last: 'Lovelace' });
+    });
+
+    it('returns the same handler on every render', () => {
+        const result = renderControlled<Person, FieldChangeHandler<Person>>(
+            { first: '', last: '' },
+            useFieldChangeHandler,
+        );
+        const first = result.handlers;
+
+        act(() => {
+            result.handlers('Ada', 'first');
+        });
+
+        expect(result.handlers).toBe(first);
+    });
+});
+
+describe('useReplaceChangeHandler', () => {
+    it('propagates the current value', () => {
+        const result = renderControlled('a', useReplaceChangeHandler);
+
+        act(() => {
+            result.handlers('a');
+        });
+
+        expect(result.onChange).toHaveBeenCalledWith('a', undefined);
+    });
+});
+
+describe('useRecordChangeHandler', () => {
+    const renderRecord = (
+        props: Partial<ControlledInput<Record<string, number>>> = {},
+    ) =>
+        renderControlled<Record<string, number>, RecordChangeHandler<number>>(
+            { a: 1 },
+            useRecordChangeHandler,
+            props,
+        );
+
+    it('does not propagate deleting an absent key', () => {
+        const result = renderRecord();
+
+        act(() => {
+            result.handlers.delete('b');
+        });
+
+        expect(result.onChange).not.toHaveBeenCalled();
+    });
+
+    it('requires a name for entry changes', () => {
+        const result = renderRecord();
+
+        expect(() => result.handlers.entry(2)).toThrow(MissingFieldError);
+    });
+
+    it('ignores entry changes while disabled', () => {
+        const result = renderRecord({ disabled: true });
+
+        expect(() => result.handlers.entry(2)).not.toThrow();
+        expect(result.onChange).not.toHaveBeenCalled();
+    });
+});
+
+describe('useSetChangeHandler', () => {
+    it('does not propagate adding an existing item', () => {
+        const result = renderControlled<Set<string>, SetChangeHandler<string>>(
+            new Set(['a']),
+            useSetChangeHandler,
+        );
+
+        act(() => {
+            result.handlers.add('a');
+        });
+
+        expect(result.onChange).not.toHaveBeenCalled();
+    });
+});
+
+describe('useUnionChangeHandler', () => {
+    type Target =
+        | { kind: 'ip'; address: string; comment: string }
+        | { kind: 'range'; start: string; end: string; comment: string };
+
+    const useTarget = (props: ControlledInput<Target>) =>
+        useUnionChangeHandler(props, 'kind', {
+            ip: previous => ({
+                kind: 'ip',
+                address: '',
+                comment: previous.comment,
+            }),
+            range: previous => ({
+                kind: 'range',
+                start: '',
+                end: '',
+                comment: previous.comment,
+            }),
+        });
+
+    it('applies field changes made in the same tick as a switch', () => {
+        const result = renderControlled<
+            Target,
+            UnionChangeHandler<Target, 'kind'>
+        >({ kind: 'ip', address: '10.0.0.1', comment: 'gateway' }, useTarget);
+
+        act(() => {
+            result.handlers.switchVariant('range');
+            result.handlers.field('10.0.0.1', 'start');
+        });
+
+        expect(result.value).toEqual({
+            kind: 'range',
+            start: '10.0.0.1',
+            end: '',
+            comment: 'gateway',
+        });
+    });
+
+    it('does not propagate switching to the current variant', () => {
+        const result = renderControlled<
+            Target,
+            UnionChangeHandler<Target, 'kind'>
+        >({ kind: 'ip', address: '10.0.0.1', comment: '' }, useTarget);
+
+        act(() => {
+            result.handlers.switchVariant('ip');
+        });
+
+        expect(result.onChange).not.toHaveBeenCalled();
+    });
+});
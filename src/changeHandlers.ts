@@ -1,27 +1,88 @@
-import { Component } from 'react';
+import { Component, useCallback, useMemo, useRef } from 'react';
 
 import {
     ChangeHandler,
     ControlledInput,
     FieldChangeHandler,
+    KeyedChangeHandler,
+    ListChangeHandler,
+    RecordChangeHandler,
+    SetChangeHandler,
+    UnionChangeHandler,
+    VariantFactories,
 } from './interface';
+import { diagnosticsFor, ObjectPath, ShowsDiagnostics } from './validation';
 
 /**
- * Create a function to propagate a completely new value on change.
+ * Props for the input responsible for one field of a composite value.
+ */
+export type FieldProps<T> = ControlledInput<T> & ShowsDiagnostics;
+
+/**
+ * A function which returns the props for the input responsible for the field
+ * `key` of a composite value. The returned `onChange` only accepts values of
+ * that field's type.
+ */
+export type FieldPropsGetter<T> = <K extends keyof T & string>(
+    key: K,
+) => FieldProps<T[K]>;
+
+/**
+ * Returns a function which reads the props from the latest render, so that
+ * memoized handlers never act on stale props.
+ */
+const useLatestProps = <P>(props: P): (() => P) => {
+    const latest = useRef(props);
+    latest.current = props;
+    return useCallback(() => latest.current, []);
+};
+
+/**
+ * Returned by an update to skip propagating it, such as when deleting a key
+ * which is already absent.
+ */
+const NO_CHANGE = Symbol('no change');
+
+/**
+ * Create a function which applies an update to the value of a
+ * `ControlledInput` and propagates the result.
+ *
+ * Several updates may be made before the parent re-renders with the new
+ * value, such as when two child inputs change in response to the same event.
+ * Each update therefore builds on the value produced by earlier updates in the
+ * same tick, rather than on the rendered value, so none of them are lost.
+ * Updates which return `NO_CHANGE` are not propagated.
  *
  * The function does nothing if the component is disabled.
  *
- * @param props
- *      The `props` from which the `ControlledInput` properties should be taken.
+ * @param getProps
+ *      Returns the current props of the component.
  */
-const replaceChangeHandlerImplementation = <T>(
-    props: ControlledInput<T>,
-): ChangeHandler<T> => (val: T) => {
-    const { disabled, name, onChange } = props;
+const createUpdater = <T>(
+    getProps: () => ControlledInput<T>,
+): ((update: (value: T) => T | typeof NO_CHANGE) => void) => {
+    let pending: { rendered: T; value: T } | null = null;
+
+    return update => {
+        const { disabled, name, value, onChange } = getProps();
+        if (disabled || !onChange) return;
+
+        // If the parent has rendered a new value since the last update, that
+        // value supersedes anything this updater has emitted.
+        const base =
+            pending && pending.rendered === value ? pending.value : value;
+        const next = update(base);
+        if (next === NO_CHANGE) return;
 
-    if (disabled || !onChange) return;
+        if (!pending) {
+            Promise.resolve().then(() => {
+                pending = null;
+            });
+        }
+        pending = { rendered: value, value: next };
 
-    onChange(val, name);
+        onChange(next, name);
+    };
 };
 
 /**
@@ -29,16 +90,37 @@ const replaceChangeHandlerImplementation = <T>(
  *
  * The function does nothing if the component is disabled.
  *
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` properties should
+ *      be taken.
+ */
+const replaceChangeHandlerImplementation = <T>(
+    getProps: () => ControlledInput<T>,
+): ChangeHandler<T> => {
+    const update = createUpdater(getProps);
+    return (val: T) => update(() => val);
+};
+
+/**
+ * Create a function to propagate a completely new value on change.
+ *
+ * The function does nothing if the component is disabled. It is referentially
+ * stable for the lifetime of the component, so it is safe to pass to
+ * memoized children.
+ *
  * @param props
  *      The `props` from which the `ControlledInput` properties should be taken.
- * 
+ *
  * @public
  */
-// This is a renaming of the function so that it presents as a hook to React.
-// It currently doesn't use any of React's built-in hooks, but it should be used
-// like a hook (unconditionally declared in the component) and we may use a hook
-// for performance improvements in the future.
-export const useReplaceChangeHandler = replaceChangeHandlerImplementation;
+export const useReplaceChangeHandler = <T>(
+    props: ControlledInput<T>,
+): ChangeHandler<T> => {
+    const getProps = useLatestProps(props);
+    return useMemo(() => replaceChangeHandlerImplementation(getProps), [
+        getProps,
+    ]);
+};
 
 /**
  * Create a function to propagate a completely new value on change.
@@ -51,8 +133,8 @@ export const useReplaceChangeHandler = replaceChangeHandlerImplementation;
  */
 export const makeReplaceChangeHandler = <T>(
     component: Component<ControlledInput<T>>,
-): ChangeHandler<T> => value =>
-    replaceChangeHandlerImplementation(component.props)(value);
+): ChangeHandler<T> =>
+    replaceChangeHandlerImplementation(() => component.props);
 
 /**
  * Error thrown when a `ControlledInput` without a `name` property value
@@ -68,45 +150,53 @@ export class MissingFieldError extends Error {
 
 /**
  * Create a function to propagate a single field update on an object value.
+ * Updates to several fields in the same tick are combined, so none are lost.
  *
  * The function does nothing if the component is disabled.
  *
- * @param props
- *      The `props` from which the `ControlledInput` properties should be taken.
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` properties should
+ *      be taken.
  */
 // tslint:disable-next-line: no-any
 const fieldChangeHandlerImplementation = <T extends { [k: string]: any }>(
-    props: ControlledInput<T>,
-): FieldChangeHandler<T> => (val, fieldName): void => {
-    const { disabled, name, value, onChange } = props;
-    if (disabled || !onChange) return;
-
-    if (typeof fieldName !== 'string') throw new MissingFieldError();
-
-    onChange(
-        {
-            ...value,
-            [fieldName]: val,
-        },
-        name,
-    );
+    getProps: () => ControlledInput<T>,
+): FieldChangeHandler<T> => {
+    const update = createUpdater(getProps);
+
+    return (val, fieldName): void =>
+        update(value => {
+            if (typeof fieldName !== 'string') throw new MissingFieldError();
+
+            return {
+                ...value,
+                [fieldName]: val,
+            };
+        });
 };
 
 /**
  * Create a function to propagate a single field update on an object value.
+ * Updates to several fields in the same tick are combined, so none are lost.
  *
- * The function does nothing if the component is disabled.
+ * The function does nothing if the component is disabled. It is referentially
+ * stable for the lifetime of the component, so it is safe to pass to
+ * memoized children.
  *
  * @param props
  *      The `props` from which the `ControlledInput` properties should be taken.
- * 
+ *
  * @public
  */
-// This is a renaming of the function so that it presents as a hook to React.
-// It currently doesn't use any of React's built-in hooks, but it should be used
-// like a hook (unconditionally declared in the component) and we may use a hook
-// for performance improvements in the future.
-export const useFieldChangeHandler = fieldChangeHandlerImplementation;
+// tslint:disable-next-line: no-any
+export const useFieldChangeHandler = <T extends { [k: string]: any }>(
+    props: ControlledInput<T>,
+): FieldChangeHandler<T> => {
+    const getProps = useLatestProps(props);
+    return useMemo(() => fieldChangeHandlerImplementation(getProps), [
+        getProps,
+    ]);
+};
 
 /**
  * Create a function to propagate a single field update on an object value from
@@ -122,5 +212,526 @@ export const useFieldChangeHandler = fieldChangeHandlerImplementation;
 // tslint:disable-next-line:no-any
 export const makeFieldChangeHandler = <T extends { [k: string]: any }>(
     component: Component<ControlledInput<T>>,
-): FieldChangeHandler<T> => (value, name) =>
-    fieldChangeHandlerImplementation(component.props)(value, name);
+): FieldChangeHandler<T> =>
+    fieldChangeHandlerImplementation(() => component.props);
+
+/**
+ * Create a function which derives the props for each field's input from the
+ * props of a composite input. Each field receives its `name`, `value`,
+ * `disabled` and `onChange`, along with the `diagnostics` under its path and
+ * a `modelPath` for its own children.
+ *
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` and
+ *      `ShowsDiagnostics` properties should be taken.
+ * @param onChange
+ *      The field change handler to give to every field.
+ */
+// tslint:disable-next-line:no-any
+const fieldPropsImplementation = <T extends { [k: string]: any }>(
+    getProps: () => FieldProps<T>,
+    onChange: FieldChangeHandler<T>,
+): FieldPropsGetter<T> => key => {
+    const { diagnostics, disabled, modelPath, value } = getProps();
+    const fieldPath = ObjectPath.extend(modelPath || ObjectPath.EMPTY, key);
+
+    return {
+        name: key,
+        value: value[key],
+        disabled,
+        // The field handler accepts any field's type, but each field's
+        // input only emits values of its own type.
+        onChange: onChange as ChangeHandler<T[typeof key]>,
+        diagnostics: diagnostics && diagnosticsFor(diagnostics, fieldPath),
+        modelPath: fieldPath,
+    };
+};
+
+/**
+ * Create a function which derives the props for each field's input from the
+ * props of a composite input, such as
+ * `<PlayerInput {...field('qb')} />`. Each field's `onChange` is
+ * referentially stable for the lifetime of the component.
+ *
+ * @param props
+ *      The `props` from which the `ControlledInput` and `ShowsDiagnostics`
+ *      properties should be taken.
+ *
+ * @public
+ */
+// tslint:disable-next-line:no-any
+export const useFieldProps = <T extends { [k: string]: any }>(
+    props: FieldProps<T>,
+): FieldPropsGetter<T> => {
+    const getProps = useLatestProps(props);
+    const onChange = useFieldChangeHandler(props);
+    return useMemo(() => fieldPropsImplementation(getProps, onChange), [
+        getProps,
+        onChange,
+    ]);
+};
+
+/**
+ * Create a function which derives the props for each field's input from the
+ * props of a class whose props extend `ControlledInput` and
+ * `ShowsDiagnostics`. For function components, see `useFieldProps`.
+ *
+ * @param component
+ *      The component instance from which props should be taken.
+ *      This will most typically be `this`.
+ */
+// tslint:disable-next-line:no-any
+export const makeFieldProps = <T extends { [k: string]: any }>(
+    component: Component<FieldProps<T>>,
+): FieldPropsGetter<T> =>
+    fieldPropsImplementation(
+        () => component.props,
+        makeFieldChangeHandler(component),
+    );
+
+/**
+ * Error thrown when a list item's change handler is invoked with a `name` that
+ * is not an index in the list. The list change handler needs the index to
+ * know which item to replace.
+ */
+export class InvalidIndexError extends Error {
+    constructor(name: string | undefined) {
+        super(`List change handler requires an item index, got "${name}"`);
+    }
+}
+
+const checkIndex = (index: number, max: number): void => {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+        throw new RangeError(`Index ${index} is outside the list bounds`);
+    }
+};
+
+/**
+ * Create functions to propagate item-level updates on a list value. Updates
+ * made in the same tick are combined, so none are lost.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` properties should
+ *      be taken.
+ */
+const listChangeHandlerImplementation = <T>(
+    getProps: () => ControlledInput<T[]>,
+): ListChangeHandler<T> => {
+    const update = createUpdater(getProps);
+    const change = (edit: (items: T[]) => void): void =>
+        update(value => {
+            const items = value.slice();
+            edit(items);
+            return items;
+        });
+
+    const replace = (items: T[], index: number, item: T) => {
+        checkIndex(index, items.length - 1);
+        items[index] = item;
+    };
+
+    return {
+        replaceAt: (index, item) =>
+            change(items => replace(items, index, item)),
+        insertAt: (index, item) =>
+            change(items => {
+                checkIndex(index, items.length);
+                items.splice(index, 0, item);
+            }),
+        removeAt: index =>
+            change(items => {
+                checkIndex(index, items.length - 1);
+                items.splice(index, 1);
+            }),
+        move: (from, to) =>
+            change(items => {
+                checkIndex(from, items.length - 1);
+                checkIndex(to, items.length - 1);
+                items.splice(to, 0, ...items.splice(from, 1));
+            }),
+        append: item =>
+            change(items => {
+                items.push(item);
+            }),
+        item: (val, fieldName) =>
+            change(items => {
+                if (typeof fieldName !== 'string' || !/^\d+$/.test(fieldName)) {
+                    throw new InvalidIndexError(fieldName);
+                }
+
+                replace(items, Number(fieldName), val);
+            }),
+    };
+};
+
+/**
+ * Create functions to propagate item-level updates on a list value.
+ *
+ * The functions do nothing if the component is disabled. The returned object
+ * and its functions are referentially stable for the lifetime of the
+ * component.
+ *
+ * @param props
+ *      The `props` from which the `ControlledInput` properties should be taken.
+ *
+ * @public
+ */
+export const useListChangeHandler = <T>(
+    props: ControlledInput<T[]>,
+): ListChangeHandler<T> => {
+    const getProps = useLatestProps(props);
+    return useMemo(() => listChangeHandlerImplementation(getProps), [getProps]);
+};
+
+/**
+ * Create functions to propagate item-level updates on a list value from a
+ * class whose props extend `ControlledInput`. For function components, see
+ * `useListChangeHandler`.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param component
+ *      The component instance from which props should be taken.
+ *      This will most typically be `this`.
+ */
+export const makeListChangeHandler = <T>(
+    component: Component<ControlledInput<T[]>>,
+): ListChangeHandler<T> =>
+    listChangeHandlerImplementation(() => component.props);
+
+/**
+ * Create functions to propagate entry-level updates on a `Map` value.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` properties should
+ *      be taken.
+ */
+const mapChangeHandlerImplementation = <K, V>(
+    getProps: () => ControlledInput<Map<K, V>>,
+): KeyedChangeHandler<K, V> => {
+    const update = createUpdater(getProps);
+
+    return {
+        set: (key, val) => update(value => new Map(value).set(key, val)),
+        delete: key =>
+            update(value => {
+                const next = new Map(value);
+                next.delete(key);
+                return next;
+            }),
+        rename: (from, to) =>
+            update(value => {
+                if (!value.has(from) || from === to) return NO_CHANGE;
+
+                const next = new Map<K, V>();
+                value.forEach((val, key) => {
+                    if (key === from) next.set(to, val);
+                    else if (key !== to) next.set(key, val);
+                });
+                return next;
+            }),
+    };
+};
+
+/**
+ * Create functions to propagate entry-level updates on a `Map` value.
+ *
+ * The functions do nothing if the component is disabled. The returned object
+ * and its functions are referentially stable for the lifetime of the
+ * component.
+ *
+ * @param props
+ *      The `props` from which the `ControlledInput` properties should be taken.
+ *
+ * @public
+ */
+export const useMapChangeHandler = <K, V>(
+    props: ControlledInput<Map<K, V>>,
+): KeyedChangeHandler<K, V> => {
+    const getProps = useLatestProps(props);
+    return useMemo(() => mapChangeHandlerImplementation(getProps), [getProps]);
+};
+
+/**
+ * Create functions to propagate entry-level updates on a `Map` value from a
+ * class whose props extend `ControlledInput`. For function components, see
+ * `useMapChangeHandler`.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param component
+ *      The component instance from which props should be taken.
+ *      This will most typically be `this`.
+ */
+export const makeMapChangeHandler = <K, V>(
+    component: Component<ControlledInput<Map<K, V>>>,
+): KeyedChangeHandler<K, V> =>
+    mapChangeHandlerImplementation(() => component.props);
+
+/**
+ * Create functions to propagate entry-level updates on a string-keyed object
+ * used as a map.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` properties should
+ *      be taken.
+ */
+const recordChangeHandlerImplementation = <V>(
+    getProps: () => ControlledInput<Record<string, V>>,
+): RecordChangeHandler<V> => {
+    const update = createUpdater(getProps);
+
+    const set = (key: string, val: V) =>
+        update(value => ({ ...value, [key]: val }));
+
+    return {
+        set,
+        delete: key =>
+            update(value => {
+                if (!value.hasOwnProperty(key)) return NO_CHANGE;
+
+                const { [key]: _removed, ...rest } = value;
+                return rest;
+            }),
+        rename: (from, to) =>
+            update(value => {
+                if (!value.hasOwnProperty(from) || from === to) {
+                    return NO_CHANGE;
+                }
+
+                const next: Record<string, V> = {};
+                Object.keys(value).forEach(key => {
+                    if (key === from) next[to] = value[from];
+                    else if (key !== to) next[key] = value[key];
+                });
+                return next;
+            }),
+        entry: (val, key) =>
+            update(value => {
+                if (typeof key !== 'string') throw new MissingFieldError();
+                return { ...value, [key]: val };
+            }),
+    };
+};
+
+/**
+ * Create functions to propagate entry-level updates on a string-keyed object
+ * used as a map.
+ *
+ * The functions do nothing if the component is disabled. The returned object
+ * and its functions are referentially stable for the lifetime of the
+ * component.
+ *
+ * @param props
+ *      The `props` from which the `ControlledInput` properties should be taken.
+ *
+ * @public
+ */
+export const useRecordChangeHandler = <V>(
+    props: ControlledInput<Record<string, V>>,
+): RecordChangeHandler<V> => {
+    const getProps = useLatestProps(props);
+    return useMemo(() => recordChangeHandlerImplementation(getProps), [
+        getProps,
+    ]);
+};
+
+/**
+ * Create functions to propagate entry-level updates on a string-keyed object
+ * from a class whose props extend `ControlledInput`. For function components,
+ * see `useRecordChangeHandler`.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param component
+ *      The component instance from which props should be taken.
+ *      This will most typically be `this`.
+ */
+export const makeRecordChangeHandler = <V>(
+    component: Component<ControlledInput<Record<string, V>>>,
+): RecordChangeHandler<V> =>
+    recordChangeHandlerImplementation(() => component.props);
+
+/**
+ * Create functions to propagate membership changes on a `Set` value.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` properties should
+ *      be taken.
+ */
+const setChangeHandlerImplementation = <T>(
+    getProps: () => ControlledInput<Set<T>>,
+): SetChangeHandler<T> => {
+    const update = createUpdater(getProps);
+
+    const toggle = (item: T, include?: boolean) =>
+        update(value => {
+            const shouldInclude =
+                include === undefined ? !value.has(item) : include;
+            if (shouldInclude === value.has(item)) return NO_CHANGE;
+
+            const next = new Set(value);
+            if (shouldInclude) next.add(item);
+            else next.delete(item);
+            return next;
+        });
+
+    return {
+        add: item => toggle(item, true),
+        remove: item => toggle(item, false),
+        toggle,
+    };
+};
+
+/**
+ * Create functions to propagate membership changes on a `Set` value.
+ *
+ * The functions do nothing if the component is disabled. The returned object
+ * and its functions are referentially stable for the lifetime of the
+ * component.
+ *
+ * @param props
+ *      The `props` from which the `ControlledInput` properties should be taken.
+ *
+ * @public
+ */
+export const useSetChangeHandler = <T>(
+    props: ControlledInput<Set<T>>,
+): SetChangeHandler<T> => {
+    const getProps = useLatestProps(props);
+    return useMemo(() => setChangeHandlerImplementation(getProps), [getProps]);
+};
+
+/**
+ * Create functions to propagate membership changes on a `Set` value from a
+ * class whose props extend `ControlledInput`. For function components, see
+ * `useSetChangeHandler`.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param component
+ *      The component instance from which props should be taken.
+ *      This will most typically be `this`.
+ */
+export const makeSetChangeHandler = <T>(
+    component: Component<ControlledInput<Set<T>>>,
+): SetChangeHandler<T> => setChangeHandlerImplementation(() => component.props);
+
+/**
+ * Create functions to propagate changes on a discriminated union value.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param getProps
+ *      Returns the props from which the `ControlledInput` properties should
+ *      be taken.
+ * @param discriminant
+ *      The property which identifies the variant.
+ * @param getFactories
+ *      Returns the default value factory for each variant.
+ */
+const unionChangeHandlerImplementation = <T extends object, D extends keyof T>(
+    getProps: () => ControlledInput<T>,
+    discriminant: D,
+    getFactories: () => VariantFactories<T, D>,
+): UnionChangeHandler<T, D> => {
+    const update = createUpdater(getProps);
+
+    return {
+        switchVariant: variant =>
+            update(value => {
+                if (value[discriminant] === variant) return NO_CHANGE;
+
+                const factories = (getFactories() as unknown) as Record<
+                    string,
+                    (previous: T) => T
+                >;
+                const next: T = { ...factories[String(variant)](value) };
+                (Object.keys(next) as (keyof T)[]).forEach(key => {
+                    if (key !== discriminant && value.hasOwnProperty(key)) {
+                        next[key] = value[key];
+                    }
+                });
+                return next;
+            }),
+        // This shares `update` with `switchVariant`, so a field change made
+        // in the same tick as a switch applies to the new variant.
+        field: (val, fieldName) =>
+            update(value => {
+                if (typeof fieldName !== 'string') {
+                    throw new MissingFieldError();
+                }
+
+                return { ...value, [fieldName]: val };
+            }),
+    };
+};
+
+/**
+ * Create functions to propagate changes on a discriminated union value, such
+ * as switching between `{ kind: 'ip', ... }` and `{ kind: 'range', ... }`.
+ *
+ * The functions do nothing if the component is disabled. The returned object
+ * and its functions are referentially stable for the lifetime of the
+ * component, and always use the latest `factories`.
+ *
+ * @param props
+ *      The `props` from which the `ControlledInput` properties should be taken.
+ * @param discriminant
+ *      The property which identifies the variant.
+ * @param factories
+ *      The default value factory for each variant.
+ *
+ * @public
+ */
+export const useUnionChangeHandler = <T extends object, D extends keyof T>(
+    props: ControlledInput<T>,
+    discriminant: D,
+    factories: VariantFactories<T, D>,
+): UnionChangeHandler<T, D> => {
+    const getProps = useLatestProps(props);
+    const getFactories = useLatestProps(factories);
+    return useMemo(
+        () =>
+            unionChangeHandlerImplementation(
+                getProps,
+                discriminant,
+                getFactories,
+            ),
+        [getProps, discriminant, getFactories],
+    );
+};
+
+/**
+ * Create functions to propagate changes on a discriminated union value from a
+ * class whose props extend `ControlledInput`. For function components, see
+ * `useUnionChangeHandler`.
+ *
+ * The functions do nothing if the component is disabled.
+ *
+ * @param component
+ *      The component instance from which props should be taken.
+ *      This will most typically be `this`.
+ * @param discriminant
+ *      The property which identifies the variant.
+ * @param factories
+ *      The default value factory for each variant.
+ */
+export const makeUnionChangeHandler = <T extends object, D extends keyof T>(
+    component: Component<ControlledInput<T>>,
+    discriminant: D,
+    factories: VariantFactories<T, D>,
+): UnionChangeHandler<T, D> =>
+    unionChangeHandlerImplementation(
+        () => component.props,
+        discriminant,
+        () => factories,
+    );
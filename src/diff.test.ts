@@ -0,0 +1,185 @@
+import fc from 'fast-check';
+
+import { createJsonPatch, diffValues, JsonPatchOperation } from './diff';
+import { Entity } from './entity';
+import { EntityAction } from './entityAction';
+import { ObjectPath } from './validation';
+
+/**
+ * Apply a JSON Patch without mutating `doc`.
+ */
+const applyPatch = (doc: unknown, patch: JsonPatchOperation[]): unknown =>
+    patch.reduce((value, operation) => {
+        const parts = ObjectPath.toArray(
+            ObjectPath.fromJsonPointer(operation.path, value),
+        );
+        if (!parts.length) {
+            return operation.op === 'remove' ? undefined : operation.value;
+        }
+
+        const key = parts[parts.length - 1];
+        return ObjectPath.update(
+            value,
+            ObjectPath.fromArray(parts.slice(0, -1)),
+            parent => {
+                if (Array.isArray(parent)) {
+                    const items = parent.slice();
+                    const index = Number(key);
+                    if (operation.op === 'add') {
+                        items.splice(index, 0, operation.value);
+                    } else if (operation.op === 'remove') {
+                        items.splice(index, 1);
+                    } else {
+                        items[index] = operation.value;
+                    }
+                    return items;
+                }
+
+                const copy = { ...(parent as Record<string, unknown>) };
+                if (operation.op === 'remove') {
+                    delete copy[key];
+                } else {
+                    copy[key] = operation.value;
+                }
+                return copy;
+            },
+        );
+    }, doc);
+
+describe('diffValues', () => {
+    it('reports changed leaves of nested objects', () => {
+        expect(
+            diffValues(
+                { name: 'web', port: 80, tls: { enabled: false } },
+                { name: 'web', tls: { enabled: true }, note: 'edge' },
+            ),
+        ).toEqual([
+            {
+                path: ObjectPath.create('port'),
+                kind: 'removed',
+                previous: 80,
+            },
+            {
+                path: ObjectPath.create('tls', 'enabled'),
+                kind: 'modified',
+                previous: false,
+                value: true,
+            },
+            { path: ObjectPath.create('note'), kind: 'added', value: 'edge' },
+        ]);
+    });
+
+    it('compares arrays by index, removing trailing items last first', () => {
+        expect(diffValues(['a', 'b', 'c'], ['x'])).toEqual([
+            {
+                path: ObjectPath.create(0),
+                kind: 'modified',
+                previous: 'a',
+                value: 'x',
+            },
+            { path: ObjectPath.create(2), kind: 'removed', previous: 'c' },
+            { path: ObjectPath.create(1), kind: 'removed', previous: 'b' },
+        ]);
+    });
+
+    it('compares values such as dates as a whole', () => {
+        expect(diffValues(new Date(0), new Date(0))).toEqual([]);
+        expect(diffValues(new Date(0), new Date(1))).toHaveLength(1);
+    });
+
+    describe('identify', () => {
+        const identify = (item: unknown) => (item as { id?: number }).id;
+
+        it('does not report reordering as a change', () => {
+            expect(
+                diffValues([{ id: 1 }, { id: 2 }], [{ id: 2 }, { id: 1 }], {
+                    identify,
+                }),
+            ).toEqual([]);
+        });
+
+        it('matches items by identity rather than index', () => {
+            const before = [
+                { id: 1, name: 'a' },
+                { id: 2, name: 'b' },
+                { id: 3, name: 'c' },
+            ];
+            const after = [
+                { id: 3, name: 'c' },
+                { id: 4, name: 'd' },
+                { id: 1, name: 'A' },
+            ];
+
+            expect(diffValues(before, after, { identify })).toEqual([
+                {
+                    path: ObjectPath.create(1),
+                    kind: 'added',
+                    value: { id: 4, name: 'd' },
+                },
+                {
+                    path: ObjectPath.create(2, 'name'),
+                    kind: 'modified',
+                    previous: 'a',
+                    value: 'A',
+                },
+                {
+                    path: ObjectPath.create(1),
+                    kind: 'removed',
+                    previous: { id: 2, name: 'b' },
+                },
+            ]);
+        });
+
+        it('compares arrays by index when an item has no identity', () => {
+            expect(
+                diffValues([{ id: 1 }, {}], [{}, { id: 1 }], { identify }),
+            ).toHaveLength(2);
+        });
+    });
+});
+
+describe('createJsonPatch', () => {
+    it('turns the first value into the second', () => {
+        fc.assert(
+            fc.property(fc.jsonObject(4), fc.jsonObject(4), (before, after) => {
+                expect(
+                    applyPatch(before, createJsonPatch(before, after)),
+                ).toEqual(after);
+            }),
+        );
+    });
+
+    it('escapes keys in pointers', () => {
+        expect(createJsonPatch({}, { 'a/b~c': 1 })).toEqual([
+            { op: 'add', path: '/a~1b~0c', value: 1 },
+        ]);
+    });
+});
+
+describe('Entity.isPathDirty', () => {
+    const entity = Entity.reduce(
+        Entity.createSaved({ name: 'web', tags: ['a'] }),
+        EntityAction.update({ name: 'api', tags: ['a'] }),
+        () => [],
+    );
+
+    it('reports paths which differ from the saved value', () => {
+        expect(Entity.isPathDirty(entity, ObjectPath.create('name'))).toBe(
+            true,
+        );
+        expect(Entity.isPathDirty(entity, ObjectPath.EMPTY)).toBe(true);
+    });
+
+    it('compares values rather than identities', () => {
+        expect(Entity.isPathDirty(entity, ObjectPath.create('tags'))).toBe(
+            false,
+        );
+    });
+
+    it('is false for an entity without a draft', () => {
+        const saved = Entity.createSaved({ name: 'web' });
+        expect(Entity.isPathDirty(saved, ObjectPath.create('name'))).toBe(
+            false,
+        );
+    });
+});
@@ -0,0 +1,205 @@
+import isEqual from 'lodash-es/isEqual';
+import isPlainObject from 'lodash-es/isPlainObject';
+
+import { ObjectPath } from './validation';
+
+export type ChangeKind = 'added' | 'removed' | 'modified';
+
+/**
+ * A difference between two values at one path.
+ */
+export interface PathChange {
+    path: ObjectPath;
+    kind: ChangeKind;
+    /** The value before the change. Absent for `added` changes. */
+    previous?: unknown;
+    /** The value after the change. Absent for `removed` changes. */
+    value?: unknown;
+}
+
+export interface DiffOptions {
+    /**
+     * Identify array items, so that items are compared with the item of the
+     * same identity rather than the one at the same index. Return `undefined`
+     * for arrays which should be compared by index.
+     *
+     * Matched and added items are reported at their index in the new array,
+     * removed items at their index in the old one. Reordering alone is not
+     * reported as a change.
+     *
+     * @param item An item of the array
+     * @param arrayPath The location of the array
+     */
+    identify?(item: unknown, arrayPath: ObjectPath): unknown;
+}
+
+/**
+ * An RFC 6902 JSON Patch operation.
+ */
+export type JsonPatchOperation =
+    | { op: 'add'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'replace'; path: string; value: unknown };
+
+type Plain = Record<string, unknown>;
+
+const isPlain = (value: unknown): value is Plain => isPlainObject(value);
+
+const added = (path: ObjectPath, value: unknown): PathChange => ({
+    path,
+    kind: 'added',
+    value,
+});
+
+const removed = (path: ObjectPath, previous: unknown): PathChange => ({
+    path,
+    kind: 'removed',
+    previous,
+});
+
+/**
+ * Compare arrays item by item. Trailing removals are listed from the last
+ * index down, so the changes can be applied in order.
+ */
+const diffByIndex = (
+    before: readonly unknown[],
+    after: readonly unknown[],
+    path: ObjectPath,
+    options: DiffOptions,
+): PathChange[] => {
+    const changes: PathChange[] = [];
+    const common = Math.min(before.length, after.length);
+
+    for (let i = 0; i < common; i++) {
+        changes.push(
+            ...diffAt(before[i], after[i], ObjectPath.extend(path, i), options),
+        );
+    }
+    for (let i = common; i < after.length; i++) {
+        changes.push(added(ObjectPath.extend(path, i), after[i]));
+    }
+    for (let i = before.length - 1; i >= common; i--) {
+        changes.push(removed(ObjectPath.extend(path, i), before[i]));
+    }
+
+    return changes;
+};
+
+const diffByIdentity = (
+    before: readonly unknown[],
+    after: readonly unknown[],
+    path: ObjectPath,
+    options: DiffOptions & Required<Pick<DiffOptions, 'identify'>>,
+): PathChange[] => {
+    const identities = before.map(item => options.identify(item, path));
+    const matched = new Set<number>();
+    const changes: PathChange[] = [];
+
+    after.forEach((item, i) => {
+        const id = options.identify(item, path);
+        const previousIndex = identities.findIndex(
+            (other, j) => !matched.has(j) && isEqual(other, id),
+        );
+        const itemPath = ObjectPath.extend(path, i);
+
+        if (previousIndex === -1) {
+            changes.push(added(itemPath, item));
+            return;
+        }
+
+        matched.add(previousIndex);
+        changes.push(...diffAt(before[previousIndex], item, itemPath, options));
+    });
+
+    before.forEach((item, j) => {
+        if (!matched.has(j)) {
+            changes.push(removed(ObjectPath.extend(path, j), item));
+        }
+    });
+
+    return changes;
+};
+
+const diffAt = (
+    before: unknown,
+    after: unknown,
+    path: ObjectPath,
+    options: DiffOptions,
+): PathChange[] => {
+    if (before === after) return [];
+    if (before === undefined) return [added(path, after)];
+    if (after === undefined) return [removed(path, before)];
+
+    if (isPlain(before) && isPlain(after)) {
+        const changes: PathChange[] = [];
+        for (const key of Object.keys({ ...before, ...after })) {
+            const keyPath = ObjectPath.extend(path, key);
+            changes.push(...diffAt(before[key], after[key], keyPath, options));
+        }
+
+        return changes;
+    }
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const { identify } = options;
+        if (
+            identify &&
+            [...before, ...after].every(
+                item => identify(item, path) !== undefined,
+            )
+        ) {
+            return diffByIdentity(before, after, path, {
+                ...options,
+                identify,
+            });
+        }
+
+        return diffByIndex(before, after, path, options);
+    }
+
+    return isEqual(before, after)
+        ? []
+        : [{ path, kind: 'modified', previous: before, value: after }];
+};
+
+/**
+ * List the leaves which differ between two values. Plain objects and arrays
+ * are compared member by member; other values, including `Map`, `Set` and
+ * `Date`, are compared as a whole with lodash's `isEqual`. A value of
+ * `undefined` is treated as absent, so replacing it is an addition.
+ *
+ * @param before The original value, such as an entity's saved value
+ * @param after The changed value, such as an entity's draft
+ * @param options How to match array items
+ */
+export const diffValues = (
+    before: unknown,
+    after: unknown,
+    options: DiffOptions = {},
+): PathChange[] => diffAt(before, after, ObjectPath.EMPTY, options);
+
+/**
+ * Create an RFC 6902 JSON Patch which turns `before` into `after`. Arrays are
+ * always compared by index, so that every operation's path is valid when it
+ * is applied.
+ *
+ * @param before The value the patch will be applied to
+ * @param after The value the patch should produce
+ */
+export const createJsonPatch = (
+    before: unknown,
+    after: unknown,
+): JsonPatchOperation[] =>
+    diffValues(before, after).map(
+        (change): JsonPatchOperation => {
+            const path = ObjectPath.toJsonPointer(change.path);
+            switch (change.kind) {
+                case 'added':
+                    return { op: 'add', path, value: change.value };
+                case 'removed':
+                    return { op: 'remove', path };
+                case 'modified':
+                    return { op: 'replace', path, value: change.value };
+            }
+        },
+    );
@@ -0,0 +1,93 @@
+/**
+ * Somewhere to keep unsaved drafts so they survive a page reload or crash.
+ * Adapters are synchronous, so a stored draft can be offered for restoration
+ * on the first render.
+ */
+export interface DraftStorage {
+    /**
+     * Read the draft stored under `key`.
+     *
+     * @returns The stored value, or `undefined` if there is none or it could
+     * not be read.
+     */
+    load(key: string): unknown;
+    /**
+     * Store `value` under `key`, replacing any earlier draft.
+     */
+    save(key: string, value: unknown): void;
+    /**
+     * Forget the draft stored under `key`, if any.
+     */
+    remove(key: string): void;
+}
+
+/**
+ * The subset of the DOM `Storage` interface used by
+ * `DraftStorage.fromWebStorage`, so that this package does not depend on the
+ * DOM typings.
+ */
+export interface StorageLike {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+export const DraftStorage = {
+    /**
+     * Create a storage adapter which keeps drafts in memory. Drafts survive
+     * remounting a form, but not reloading the page.
+     */
+    inMemory: (): DraftStorage => {
+        const drafts = new Map<string, unknown>();
+        return {
+            load: key => drafts.get(key),
+            save: (key, value) => {
+                drafts.set(key, value);
+            },
+            remove: key => {
+                drafts.delete(key);
+            },
+        };
+    },
+
+    /**
+     * Create a storage adapter which keeps drafts as JSON in a web storage
+     * area, such as `window.localStorage`. Values must survive a JSON round
+     * trip, so `Map`, `Set` and `Date` fields are not supported.
+     *
+     * Storage errors, such as exceeding the quota or storage being disabled,
+     * are ignored: losing a backup copy of the draft shouldn't interrupt the
+     * user's editing.
+     *
+     * @param storage The storage area to use
+     * @param prefix Prepended to every key, to keep drafts apart from other
+     * data in the same storage area
+     */
+    fromWebStorage: (
+        storage: StorageLike,
+        prefix = 'draft:',
+    ): DraftStorage => ({
+        load: key => {
+            try {
+                const json = storage.getItem(prefix + key);
+                return json === null ? undefined : JSON.parse(json);
+            } catch (e) {
+                return undefined;
+            }
+        },
+        save: (key, value) => {
+            try {
+                storage.setItem(prefix + key, JSON.stringify(value));
+            } catch (e) {
+                // Ignored, as described above.
+            }
+        },
+        remove: key => {
+            try {
+                storage.removeItem(prefix + key);
+            } catch (e) {
+                // Ignored, as described above.
+            }
+        },
+    }),
+};
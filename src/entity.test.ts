@@ -0,0 +1,236 @@
+import { Entity } from './entity';
+import { EntityAction } from './entityAction';
+import {
+    Diagnostic,
+    DiagnosticType,
+    ObjectPath,
+    Severity,
+    validators,
+} from './validation';
+
+const required = validators.required();
+
+const asyncDiagnostic: Diagnostic = {
+    type: 'taken',
+    severity: Severity.Error,
+    message: 'This name is taken',
+    path: ObjectPath.EMPTY,
+};
+
+/**
+ * Apply actions in order, as `useEntity` does.
+ */
+const reduceAll = <T>(entity: Entity<T>, ...actions: EntityAction<T>[]) =>
+    actions.reduce((e, action) => Entity.reduce(e, action, required), entity);
+
+describe('Entity.latestValue', () => {
+    it('returns falsy drafts', () => {
+        const entity = reduceAll(
+            Entity.createSaved('abc'),
+            EntityAction.update(''),
+        );
+        expect(Entity.latestValue(entity)).toBe('');
+    });
+});
+
+describe('Entity.reduce', () => {
+    describe('async validation', () => {
+        it('tracks runs for a falsy draft', () => {
+            const validating = reduceAll(
+                Entity.createSaved('abc'),
+                EntityAction.update(''),
+                EntityAction.validationStarted(''),
+            );
+            expect(validating.isValidating).toBe(true);
+
+            const validated = reduceAll(
+                validating,
+                EntityAction.validationFinished('', [asyncDiagnostic]),
+            );
+            expect(validated.isValidating).toBe(false);
+            expect(validated.diagnostics).toContain(asyncDiagnostic);
+        });
+
+        it('discards results for a superseded value', () => {
+            const entity = reduceAll(
+                Entity.createSaved('abc'),
+                EntityAction.update('ab'),
+                EntityAction.validationStarted('ab'),
+                EntityAction.update('a'),
+                EntityAction.validationFinished('ab', [asyncDiagnostic]),
+            );
+
+            expect(entity.diagnostics).not.toContain(asyncDiagnostic);
+        });
+    });
+
+    it('validates updates', () => {
+        const entity = reduceAll(
+            Entity.createSaved('abc'),
+            EntityAction.update(''),
+        );
+        expect(entity.diagnostics.map(d => d.type)).toEqual([
+            DiagnosticType.Required,
+        ]);
+    });
+
+    it('ignores updates while deleting', () => {
+        const entity = reduceAll(
+            Entity.createSaved('abc'),
+            EntityAction.deleteStarted(),
+            EntityAction.update('x'),
+        );
+        expect(Entity.latestValue(entity)).toBe('abc');
+    });
+
+    it('keeps edits made while a save was in flight', () => {
+        const entity = reduceAll(
+            Entity.createSaved({ name: 'a', note: '' }),
+            EntityAction.update({ name: 'b', note: '' }),
+            EntityAction.saveStarted(),
+            EntityAction.update({ name: 'b', note: 'typed later' }),
+            EntityAction.saveSucceeded(
+                { name: 'B', note: '' },
+                { name: 'b', note: '' },
+            ),
+        );
+
+        expect(entity.saved).toEqual({ name: 'B', note: '' });
+        expect(entity.draft).toEqual({ name: 'B', note: 'typed later' });
+        expect(entity.isSaving).toBe(false);
+    });
+
+    it('rolls back a failed optimistic save', () => {
+        const entity = reduceAll(
+            Entity.createSaved('a'),
+            EntityAction.update('b'),
+            EntityAction.saveStarted('b'),
+            EntityAction.saveFailed(undefined, { saved: 'a' }),
+        );
+
+        expect(entity.saved).toBe('a');
+        expect(entity.draft).toBe('b');
+    });
+
+    describe('updateSaved', () => {
+        interface Rule {
+            name: string;
+            port: number;
+            tags: string[];
+        }
+
+        const base: Rule = { name: 'web', port: 80, tags: ['a'] };
+        const name = ObjectPath.create('name');
+
+        /** An entity whose draft renamed the rule to `mine`. */
+        const renamed = (mine: string) =>
+            reduceAll(
+                Entity.createSaved(base),
+                EntityAction.update({ ...base, name: mine }),
+            );
+
+        it('applies remote changes to fields the draft did not change', () => {
+            const entity = reduceAll(
+                renamed('api'),
+                EntityAction.updateSaved({ ...base, port: 8080 }),
+            );
+
+            expect(entity.saved).toEqual({ ...base, port: 8080 });
+            expect(entity.draft).toEqual({ ...base, name: 'api', port: 8080 });
+            expect(Entity.conflicts(entity)).toEqual([]);
+        });
+
+        it('reports fields both sides changed as conflicts', () => {
+            const entity = reduceAll(
+                renamed('api'),
+                EntityAction.updateSaved({ ...base, name: 'www' }),
+            );
+
+            expect(entity.draft).toEqual({ ...base, name: 'api' });
+            expect(Entity.conflicts(entity)).toEqual([name]);
+            expect(Entity.hasErrors(entity)).toBe(true);
+        });
+
+        it('keeps conflicts through a later remote change', () => {
+            const entity = reduceAll(
+                renamed('api'),
+                EntityAction.updateSaved({ ...base, name: 'www' }),
+                EntityAction.updateSaved({ ...base, name: 'www', port: 8080 }),
+            );
+
+            expect(entity.draft).toEqual({ ...base, name: 'api', port: 8080 });
+            expect(Entity.conflicts(entity)).toEqual([name]);
+        });
+
+        it('treats arrays of different lengths as a single value', () => {
+            const entity = reduceAll(
+                Entity.createSaved(base),
+                EntityAction.update({ ...base, tags: ['a', 'b'] }),
+                EntityAction.updateSaved({ ...base, tags: ['a', 'c', 'd'] }),
+            );
+
+            expect(entity.draft).toEqual({ ...base, tags: ['a', 'b'] });
+            expect(Entity.conflicts(entity)).toEqual([
+                ObjectPath.create('tags'),
+            ]);
+        });
+
+        it('takes a resized remote array when the draft kept it', () => {
+            const entity = reduceAll(
+                renamed('api'),
+                EntityAction.updateSaved({ ...base, tags: ['a', 'c'] }),
+            );
+
+            expect(entity.draft).toEqual({
+                ...base,
+                name: 'api',
+                tags: ['a', 'c'],
+            });
+            expect(Entity.conflicts(entity)).toEqual([]);
+        });
+
+        describe('resolveConflict', () => {
+            const conflicted = () =>
+                reduceAll(
+                    renamed('api'),
+                    EntityAction.updateSaved({ ...base, name: 'www' }),
+                );
+
+            it("keeps the draft's value for 'mine'", () => {
+                const entity = reduceAll(
+                    conflicted(),
+                    EntityAction.resolveConflict(name, 'mine'),
+                );
+
+                expect(entity.draft).toEqual({ ...base, name: 'api' });
+                expect(Entity.conflicts(entity)).toEqual([]);
+                expect(Entity.hasErrors(entity)).toBe(false);
+            });
+
+            it("takes the saved value for 'theirs'", () => {
+                const entity = reduceAll(
+                    conflicted(),
+                    EntityAction.resolveConflict(name, 'theirs'),
+                );
+
+                expect(Entity.latestValue(entity)).toEqual({
+                    ...base,
+                    name: 'www',
+                });
+                expect(Entity.conflicts(entity)).toEqual([]);
+                expect(Entity.hasUnsavedChanges(entity)).toBe(false);
+            });
+        });
+    });
+
+    it('reverts to the saved value on discardChanges', () => {
+        const entity = reduceAll(
+            Entity.createSaved('abc'),
+            EntityAction.update(''),
+            EntityAction.discardChanges(),
+        );
+
+        expect(entity.draft).toBeNull();
+        expect(entity.diagnostics).toEqual([]);
+    });
+});
@@ -1,6 +1,21 @@
 import isEqual from 'lodash-es/isEqual';
 
-import { Diagnostic, Severity } from './validation';
+import {
+    createJsonPatch,
+    DiffOptions,
+    diffValues,
+    JsonPatchOperation,
+    PathChange,
+} from './diff';
+import { EntityAction } from './entityAction';
+import { mergeChanges } from './merge';
+import {
+    Diagnostic,
+    ObjectPath,
+    ServerDiagnostics,
+    Severity,
+    Validator,
+} from './validation';
 
 interface BaseEntity {
     /**
@@ -20,6 +35,19 @@ interface BaseEntity {
      * It is recommended that updates are disallowed when this is `true`.
      */
     isDeleting?: boolean;
+    /**
+     * Whether asynchronous validation of the latest value is still pending.
+     * While this is `true`, `diagnostics` only contains the results of
+     * synchronous validation.
+     */
+    isValidating?: boolean;
+    /**
+     * The paths the user has visited, or `true` once every path counts as
+     * visited, such as after a save attempt. A touched path covers the paths
+     * beneath it. This is absent unless touch tracking is in use; see
+     * `Entity.touchedDiagnostics`.
+     */
+    touched?: ObjectPath[] | true;
 }
 
 /**
@@ -64,6 +92,48 @@ export interface SavedEntity<T> extends BaseEntity {
  */
 export type Entity<T> = NewEntity<T> | SavedEntity<T>;
 
+/**
+ * The `type` of diagnostics reporting a field that was changed both in the
+ * draft and on the server.
+ */
+const CONFLICT = 'conflict';
+
+const isConflict = ({ type }: Diagnostic): boolean => type === CONFLICT;
+
+const createConflict = (path: ObjectPath): Diagnostic => ({
+    type: CONFLICT,
+    severity: Severity.Error,
+    message: 'This value was changed by someone else',
+    messageId: CONFLICT,
+    path,
+});
+
+/**
+ * Mark every path as touched, if the entity tracks touched paths.
+ */
+const touchEverything = <T>(entity: Entity<T>): Entity<T> =>
+    entity.touched === undefined || entity.touched === true
+        ? entity
+        : { ...entity, touched: true };
+
+/**
+ * Find the conflicts which still apply to `draft`. A conflict is settled once
+ * the draft matches the saved value at its path.
+ */
+const retainConflicts = <T>(
+    diagnostics: readonly Diagnostic[],
+    draft: T,
+    saved: T | null,
+): Diagnostic[] =>
+    diagnostics.filter(
+        d =>
+            isConflict(d) &&
+            !isEqual(
+                ObjectPath.get(draft, d.path),
+                ObjectPath.get(saved, d.path),
+            ),
+    );
+
 export const Entity = {
     /**
      * Check if an entity has not yet been provisioned on the server.
@@ -78,7 +148,8 @@ export const Entity = {
         entity.saved !== null,
     /**
      * Gets the in-progress value of an entity, falling back to the saved
-     * one if the draft has not been instantiated.
+     * one if the draft has not been instantiated. Falsy drafts such as `''`
+     * or `0` are values like any other.
      *
      * @returns A non-null `T`.
      */
@@ -86,8 +157,8 @@ export const Entity = {
     // value so this function can be called after `Entity.isSaved` without the
     // return type implicitly broadening to include `| null` for the case of
     // an absent draft.
-    latestValue: <T>(entity: Entity<T>): Exclude<T, null> =>
-        (entity.draft || entity.saved) as Exclude<T, null>,
+    latestValue: <T>({ draft, saved }: Entity<T>): Exclude<T, null> =>
+        (draft === null ? saved : draft) as Exclude<T, null>,
 
     /**
      * Checks if the entity has pending changes by comparing the draft value to
@@ -96,6 +167,43 @@ export const Entity = {
     hasUnsavedChanges: <T>({ draft, saved }: Entity<T>): boolean =>
         draft !== null && !isEqual(draft, saved),
 
+    /**
+     * List the changed leaves of the draft relative to the saved value. A new
+     * entity is reported as a single addition at the root.
+     *
+     * @param entity The entity to compare
+     * @param options How to match array items; by default they are compared
+     * by index
+     */
+    changedPaths: <T>(
+        { draft, saved }: Entity<T>,
+        options?: DiffOptions,
+    ): PathChange[] =>
+        draft === null
+            ? []
+            : diffValues(saved === null ? undefined : saved, draft, options),
+
+    /**
+     * Create an RFC 6902 JSON Patch which turns the saved value into the
+     * draft, for sending minimal `PATCH` requests.
+     */
+    toJsonPatch: <T>({ draft, saved }: Entity<T>): JsonPatchOperation[] =>
+        draft === null
+            ? []
+            : createJsonPatch(saved === null ? undefined : saved, draft),
+
+    /**
+     * Check if the value at `path` differs between the draft and the saved
+     * value. This compares a single path, so it is cheap enough to call from
+     * each input.
+     */
+    isPathDirty: <T>(entity: Entity<T>, path: ObjectPath): boolean =>
+        entity.draft !== null &&
+        !isEqual(
+            ObjectPath.get(entity.draft, path),
+            ObjectPath.get(entity.saved, path),
+        ),
+
     /**
      * Checks if the entity has any error-level diagnostics. These will commonly
      * block saving.
@@ -117,4 +225,292 @@ export const Entity = {
         diagnostics: [],
         saved,
     }),
+
+    /**
+     * Check if the user has visited `path` or a path containing it. Entities
+     * which don't track touched paths treat every path as touched.
+     */
+    isTouched: <T>({ touched }: Entity<T>, path: ObjectPath): boolean =>
+        touched === undefined ||
+        touched === true ||
+        touched.some(t => ObjectPath.startsWith(path, t)),
+
+    /**
+     * Get the diagnostics for paths the user has visited, for passing to an
+     * input's `diagnostics` prop. This hides errors on fields the user hasn't
+     * reached yet, without each input having to track its own visits.
+     *
+     * A diagnostic is shown when its path is at or beneath a touched path, so
+     * root-level diagnostics appear only once everything is touched. Entities
+     * which don't track touched paths show every diagnostic.
+     */
+    touchedDiagnostics: <T>(entity: Entity<T>): Diagnostic[] =>
+        entity.diagnostics.filter(d => Entity.isTouched(entity, d.path)),
+
+    /**
+     * List the paths where the draft and a newer saved value disagree. These
+     * are reported as error-level diagnostics of type `conflict` until they
+     * are resolved.
+     */
+    conflicts: <T>({ diagnostics }: Entity<T>): ObjectPath[] =>
+        diagnostics.filter(isConflict).map(d => d.path),
+
+    /**
+     * Apply an action to an entity. This holds the lifecycle rules shared by
+     * `useEntity` and external stores: it never mutates `entity`, and returns
+     * it unchanged for actions of other types.
+     *
+     * Async validation is not started by the reducer; callers which run it
+     * dispatch `validationStarted` and `validationFinished` around each run.
+     *
+     * @param entity The current entity
+     * @param action An action created with `EntityAction`
+     * @param validator The synchronous validator for the entity's value
+     */
+    reduce: <T>(
+        entity: Entity<T>,
+        action: EntityAction<T>,
+        validator: Validator<T>,
+    ): Entity<T> => {
+        switch (action.type) {
+            case 'entity/update':
+                if (entity.isDeleting) return entity;
+                return {
+                    ...entity,
+                    draft: action.value,
+                    diagnostics: [
+                        ...validator(action.value),
+                        ...ServerDiagnostics.retainUnchanged(
+                            entity.diagnostics,
+                            Entity.latestValue(entity),
+                            action.value,
+                        ),
+                        ...retainConflicts(
+                            entity.diagnostics,
+                            action.value,
+                            entity.saved,
+                        ),
+                    ],
+                    isValidating: false,
+                } as Entity<T>;
+            case 'entity/updateSaved': {
+                // The draft was forked from the current saved value, so that
+                // is the base for merging in the server's changes.
+                const { draft, saved } = entity;
+                if (draft === null || saved === null) {
+                    return { ...entity, saved: action.value } as Entity<T>;
+                }
+
+                const merged = mergeChanges(saved, draft, action.value);
+                const retained = retainConflicts(
+                    entity.diagnostics,
+                    merged.value,
+                    action.value,
+                );
+                const conflicts = [
+                    ...retained,
+                    ...merged.conflicts
+                        .filter(path => !retained.some(d => d.path === path))
+                        .map(createConflict),
+                ];
+
+                if (merged.value === draft) {
+                    return {
+                        ...entity,
+                        saved: action.value,
+                        diagnostics: [
+                            ...entity.diagnostics.filter(d => !isConflict(d)),
+                            ...conflicts,
+                        ],
+                    };
+                }
+
+                return {
+                    ...entity,
+                    saved: action.value,
+                    draft: merged.value,
+                    diagnostics: [
+                        ...validator(merged.value),
+                        ...ServerDiagnostics.retainUnchanged(
+                            entity.diagnostics,
+                            draft,
+                            merged.value,
+                        ),
+                        ...conflicts,
+                    ],
+                    isValidating: false,
+                };
+            }
+            case 'entity/setSaving':
+                return { ...entity, isSaving: action.isSaving };
+            case 'entity/saveStarted':
+                return {
+                    ...touchEverything(entity),
+                    isSaving: true,
+                    ...(action.optimisticValue === undefined
+                        ? {}
+                        : { saved: action.optimisticValue }),
+                } as Entity<T>;
+            case 'entity/saveSucceeded': {
+                const { value, sent } = action;
+                const latest = Entity.latestValue(entity);
+                if (sent === undefined || latest === sent) {
+                    return {
+                        ...entity,
+                        isSaving: false,
+                        isValidating: false,
+                        draft: null,
+                        saved: value,
+                        diagnostics: validator(value),
+                    };
+                }
+
+                // The user kept editing while the save was in flight, so
+                // apply those edits on top of what the server stored.
+                const merged = mergeChanges<T>(sent, latest, value);
+                return {
+                    ...entity,
+                    isSaving: false,
+                    isValidating: false,
+                    draft: merged.value,
+                    saved: value,
+                    diagnostics: [
+                        ...validator(merged.value),
+                        ...merged.conflicts.map(createConflict),
+                    ],
+                };
+            }
+            case 'entity/saveFailed': {
+                const failed = {
+                    ...entity,
+                    isSaving: false,
+                    diagnostics: action.diagnostics
+                        ? [
+                              ...entity.diagnostics.filter(
+                                  d => !ServerDiagnostics.isFromServer(d),
+                              ),
+                              ...action.diagnostics,
+                          ]
+                        : entity.diagnostics,
+                };
+
+                return action.rollback
+                    ? ({
+                          ...failed,
+                          saved: action.rollback.saved,
+                          draft: Entity.latestValue(entity),
+                      } as Entity<T>)
+                    : failed;
+            }
+            case 'entity/revalidate':
+                return {
+                    ...entity,
+                    diagnostics: [
+                        ...validator(Entity.latestValue(entity)),
+                        ...entity.diagnostics.filter(
+                            d =>
+                                ServerDiagnostics.isFromServer(d) ||
+                                isConflict(d),
+                        ),
+                    ],
+                    isValidating: false,
+                };
+            case 'entity/discardChanges':
+                if (Entity.isNew(entity)) return entity;
+                return {
+                    ...entity,
+                    draft: null,
+                    diagnostics: validator(entity.saved),
+                    isValidating: false,
+                };
+            case 'entity/reset': {
+                const fresh = Entity.reduce(
+                    action.isSaved
+                        ? Entity.createSaved(action.value)
+                        : Entity.createUnsaved(action.value),
+                    EntityAction.revalidate(),
+                    validator,
+                );
+
+                // Start over with nothing touched, but keep tracking.
+                return entity.touched === undefined
+                    ? fresh
+                    : { ...fresh, touched: [] };
+            }
+            case 'entity/touch': {
+                const { touched } = entity;
+                if (
+                    touched === undefined ||
+                    touched === true ||
+                    Entity.isTouched(entity, action.path)
+                ) {
+                    return entity;
+                }
+
+                return {
+                    ...entity,
+                    touched: [
+                        ...touched.filter(
+                            t => !ObjectPath.startsWith(t, action.path),
+                        ),
+                        action.path,
+                    ],
+                };
+            }
+            case 'entity/touchAll':
+                return touchEverything(entity);
+            case 'entity/deleteStarted':
+                return { ...entity, isDeleting: true };
+            case 'entity/deleteFinished':
+                return { ...entity, isDeleting: false };
+            case 'entity/resolveConflict': {
+                const { path, resolution } = action;
+                const resolved = entity.diagnostics.filter(
+                    d => isConflict(d) && Diagnostic.isFor(d, path),
+                );
+                if (resolution === 'mine') {
+                    return {
+                        ...entity,
+                        diagnostics: entity.diagnostics.filter(
+                            d => resolved.indexOf(d) === -1,
+                        ),
+                    };
+                }
+
+                // Taking the saved value at each path settles its conflict,
+                // so the update drops the diagnostics.
+                const draft = resolved.reduce<T>(
+                    (value, d) =>
+                        ObjectPath.set(
+                            value,
+                            d.path,
+                            ObjectPath.get(entity.saved, d.path),
+                        ),
+                    Entity.latestValue(entity),
+                );
+                return Entity.reduce(
+                    entity,
+                    EntityAction.update(draft),
+                    validator,
+                );
+            }
+            case 'entity/validationStarted':
+                return action.value === Entity.latestValue(entity)
+                    ? { ...entity, isValidating: true }
+                    : entity;
+            case 'entity/validationFinished':
+                return action.value === Entity.latestValue(entity)
+                    ? {
+                          ...entity,
+                          isValidating: false,
+                          diagnostics: [
+                              ...entity.diagnostics,
+                              ...action.diagnostics,
+                          ],
+                      }
+                    : entity;
+            default:
+                return entity;
+        }
+    },
 };
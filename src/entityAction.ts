@@ -0,0 +1,204 @@
+import { Diagnostic, ObjectPath } from './validation';
+
+/**
+ * How to settle a conflict between the draft and the saved value: keep the
+ * draft's value, or replace it with the saved one.
+ */
+export type ConflictResolution = 'mine' | 'theirs';
+
+/**
+ * A change to an `Entity`, applied with `Entity.reduce`. These are plain
+ * objects so they can be dispatched to a Redux store; create them with the
+ * functions on `EntityAction` rather than by hand.
+ */
+export type EntityAction<T> =
+    | { type: 'entity/update'; value: T }
+    | { type: 'entity/updateSaved'; value: T }
+    | { type: 'entity/setSaving'; isSaving: boolean }
+    | { type: 'entity/saveStarted'; optimisticValue?: T }
+    | { type: 'entity/saveSucceeded'; value: T; sent?: T }
+    | {
+          type: 'entity/saveFailed';
+          diagnostics?: Diagnostic[];
+          rollback?: { saved: T | null };
+      }
+    | { type: 'entity/revalidate' }
+    | { type: 'entity/discardChanges' }
+    | { type: 'entity/reset'; value: T; isSaved: boolean }
+    | { type: 'entity/deleteStarted' }
+    | { type: 'entity/deleteFinished' }
+    | { type: 'entity/touch'; path: ObjectPath }
+    | { type: 'entity/touchAll' }
+    | {
+          type: 'entity/resolveConflict';
+          path: ObjectPath;
+          resolution: ConflictResolution;
+      }
+    | { type: 'entity/validationStarted'; value: T }
+    | {
+          type: 'entity/validationFinished';
+          value: T;
+          diagnostics: Diagnostic[];
+      };
+
+export const EntityAction = {
+    /**
+     * Replace the draft value and recompute diagnostics. Server diagnostics
+     * are kept for paths whose value did not change. This is ignored while
+     * the entity is being deleted.
+     */
+    update: <T>(value: T): EntityAction<T> => ({
+        type: 'entity/update',
+        value,
+    }),
+
+    /**
+     * Replace the saved value, such as when the server pushes a newer copy.
+     * If there is a draft, changes to fields the user has not edited are
+     * applied to it, and fields both sides changed become conflicts.
+     */
+    updateSaved: <T>(value: T): EntityAction<T> => ({
+        type: 'entity/updateSaved',
+        value,
+    }),
+
+    /**
+     * Set `isSaving` without otherwise changing the entity.
+     */
+    setSaving: <T>(isSaving: boolean): EntityAction<T> => ({
+        type: 'entity/setSaving',
+        isSaving,
+    }),
+
+    /**
+     * Mark the entity as being sent to the server. If the entity tracks
+     * touched paths, every path becomes touched so that all diagnostics are
+     * shown.
+     *
+     * @param optimisticValue If set, this becomes the saved value at once,
+     * before the server responds. Pass the previous saved value to
+     * `saveFailed` to roll back.
+     */
+    saveStarted: <T>(optimisticValue?: T): EntityAction<T> => ({
+        type: 'entity/saveStarted',
+        optimisticValue,
+    }),
+
+    /**
+     * Make `value` the saved value, discard the draft and revalidate.
+     *
+     * @param value The value the server accepted
+     * @param sent The value that was sent to the server. If the draft has
+     * changed since, those edits are kept as a new draft on top of `value`
+     * rather than discarded.
+     */
+    saveSucceeded: <T>(value: T, sent?: T): EntityAction<T> => ({
+        type: 'entity/saveSucceeded',
+        value,
+        sent,
+    }),
+
+    /**
+     * Mark a save as finished without changing the value.
+     *
+     * @param diagnostics Diagnostics extracted from the server's response,
+     * which replace any earlier server diagnostics. If omitted, diagnostics
+     * are left unchanged.
+     * @param rollback The saved value from before an optimistic save. The
+     * latest value is kept as the draft.
+     */
+    saveFailed: <T>(
+        diagnostics?: Diagnostic[],
+        rollback?: { saved: T | null },
+    ): EntityAction<T> => ({
+        type: 'entity/saveFailed',
+        diagnostics,
+        rollback,
+    }),
+
+    /**
+     * Rerun the validator on the latest value, such as after the validator
+     * has changed. Server diagnostics are kept.
+     */
+    revalidate: <T>(): EntityAction<T> => ({ type: 'entity/revalidate' }),
+
+    /**
+     * Drop the draft and revalidate the saved value. New entities have
+     * nothing to revert to, so they are left unchanged; delete them instead.
+     */
+    discardChanges: <T>(): EntityAction<T> => ({
+        type: 'entity/discardChanges',
+    }),
+
+    /**
+     * Replace the entity with a fresh one for `value`, as if it had just been
+     * created with `Entity.createSaved` or `Entity.createUnsaved`.
+     */
+    reset: <T>(value: T, isSaved: boolean): EntityAction<T> => ({
+        type: 'entity/reset',
+        value,
+        isSaved,
+    }),
+
+    /**
+     * Mark the entity as being deleted. Updates are ignored until
+     * `deleteFinished`.
+     */
+    deleteStarted: <T>(): EntityAction<T> => ({ type: 'entity/deleteStarted' }),
+
+    /**
+     * Mark a delete as finished, whether or not it succeeded.
+     */
+    deleteFinished: <T>(): EntityAction<T> => ({
+        type: 'entity/deleteFinished',
+    }),
+
+    /**
+     * Record that the user visited `path`, such as when an input loses focus.
+     * This does nothing for entities which don't track touched paths.
+     */
+    touch: <T>(path: ObjectPath): EntityAction<T> => ({
+        type: 'entity/touch',
+        path,
+    }),
+
+    /**
+     * Treat every path as visited. This does nothing for entities which don't
+     * track touched paths.
+     */
+    touchAll: <T>(): EntityAction<T> => ({ type: 'entity/touchAll' }),
+
+    /**
+     * Settle the conflicts at or under `path`.
+     */
+    resolveConflict: <T>(
+        path: ObjectPath,
+        resolution: ConflictResolution,
+    ): EntityAction<T> => ({
+        type: 'entity/resolveConflict',
+        path,
+        resolution,
+    }),
+
+    /**
+     * Mark async validation of `value` as pending. This is ignored if `value`
+     * is no longer the latest value.
+     */
+    validationStarted: <T>(value: T): EntityAction<T> => ({
+        type: 'entity/validationStarted',
+        value,
+    }),
+
+    /**
+     * Add the results of async validation of `value`. Results for a value
+     * which is no longer the latest one are discarded.
+     */
+    validationFinished: <T>(
+        value: T,
+        diagnostics: Diagnostic[],
+    ): EntityAction<T> => ({
+        type: 'entity/validationFinished',
+        value,
+        diagnostics,
+    }),
+};
@@ -0,0 +1,70 @@
+import { Entity } from './entity';
+import { Diagnostic, ObjectPath } from './validation';
+
+/**
+ * A set of independently saved entities keyed by ID, such as the rows of a
+ * table editor. Iteration follows insertion order, so rows added with
+ * `useEntityCollection` appear after the initial ones.
+ *
+ * IDs are used as the first part of diagnostic paths, so they must be strings
+ * or numbers. New rows need a temporary ID until they are saved.
+ */
+export type EntityCollection<K extends string | number, T> = ReadonlyMap<
+    K,
+    Entity<T>
+>;
+
+const some = <K extends string | number, T>(
+    collection: EntityCollection<K, T>,
+    predicate: (entity: Entity<T>) => boolean,
+): boolean => Array.from(collection.values()).some(predicate);
+
+export const EntityCollection = {
+    /**
+     * Check if any entity in the collection is new or has pending changes.
+     */
+    hasUnsavedChanges: <K extends string | number, T>(
+        collection: EntityCollection<K, T>,
+    ): boolean => some(collection, Entity.hasUnsavedChanges),
+
+    /**
+     * Check if any entity in the collection has error-level diagnostics.
+     */
+    hasErrors: <K extends string | number, T>(
+        collection: EntityCollection<K, T>,
+    ): boolean => some(collection, Entity.hasErrors),
+
+    /**
+     * Check if any entity in the collection is being sent to the server.
+     */
+    isSaving: <K extends string | number, T>(
+        collection: EntityCollection<K, T>,
+    ): boolean => some(collection, entity => Boolean(entity.isSaving)),
+
+    /**
+     * Get the diagnostics of every entity, with each path prefixed by the
+     * entity's ID. Passing these to an input for the whole collection lets
+     * `diagnosticsFor(id)` find the diagnostics for one row.
+     */
+    diagnostics: <K extends string | number, T>(
+        collection: EntityCollection<K, T>,
+    ): Diagnostic[] =>
+        Array.from(collection).reduce<Diagnostic[]>(
+            (all, [id, entity]) => [
+                ...all,
+                ...entity.diagnostics.map(d => ({
+                    ...d,
+                    path: ObjectPath.prefix(d.path, id),
+                })),
+            ],
+            [],
+        ),
+
+    /**
+     * Get the latest value of every entity, in collection order.
+     */
+    latestValues: <K extends string | number, T>(
+        collection: EntityCollection<K, T>,
+    ): Exclude<T, null>[] =>
+        Array.from(collection.values(), entity => Entity.latestValue(entity)),
+};
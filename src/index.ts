@@ -1,5 +1,11 @@
 export * from './changeHandlers';
+export * from './diff';
+export * from './draftStorage';
 export * from './entity';
+export * from './entityAction';
+export * from './entityCollection';
 export * from './interface';
+export * from './merge';
 export * from './useEntity';
-export * from './validation';
\ No newline at end of file
+export * from './useEntityCollection';
+export * from './validation';
@@ -12,6 +12,100 @@ export type ChangeHandler<T> = (newVal: T, name?: string) => void;
  */
 export type FieldChangeHandler<T> = ChangeHandler<T[keyof T]>;
 
+/**
+ * Operations which propagate changes to a list value. Each produces a new
+ * array and does nothing if the component is disabled.
+ */
+export interface ListChangeHandler<T> {
+    /**
+     * A change handler for child inputs which edit a single item. Each child
+     * must be given its index, as a string, for its `name`.
+     */
+    item: ChangeHandler<T>;
+    /** Replace the item at `index`. */
+    replaceAt(index: number, item: T): void;
+    /**
+     * Insert an item before the one currently at `index`. An `index` equal to
+     * the list length appends the item.
+     */
+    insertAt(index: number, item: T): void;
+    /** Remove the item at `index`. */
+    removeAt(index: number): void;
+    /** Move the item at `from` so that it ends up at index `to`. */
+    move(from: number, to: number): void;
+    /** Add an item to the end of the list. */
+    append(item: T): void;
+}
+
+/**
+ * Operations which propagate changes to a keyed collection, such as a `Map`
+ * or a string-keyed object. Each produces a new collection and does nothing
+ * if the component is disabled.
+ */
+export interface KeyedChangeHandler<K, V> {
+    /** Add an entry, or replace the value of an existing one. */
+    set(key: K, value: V): void;
+    /** Remove an entry. This does nothing if the key is absent. */
+    delete(key: K): void;
+    /**
+     * Change the key of an entry, keeping its position in iteration order.
+     * An existing entry with the new key is replaced. This does nothing if
+     * `from` is absent.
+     */
+    rename(from: K, to: K): void;
+}
+
+/**
+ * Operations which propagate changes to a string-keyed object used as a map.
+ */
+export interface RecordChangeHandler<V> extends KeyedChangeHandler<string, V> {
+    /**
+     * A change handler for child inputs which edit a single entry's value.
+     * Each child must be given its key for its `name`.
+     */
+    entry: ChangeHandler<V>;
+}
+
+/**
+ * Operations which propagate changes to a `Set`. Each produces a new set and
+ * does nothing if the component is disabled.
+ */
+export interface SetChangeHandler<T> {
+    add(item: T): void;
+    remove(item: T): void;
+    /**
+     * Add the item if it is absent and remove it if it is present. Pass
+     * `include` to force one or the other, as for a checkbox.
+     */
+    toggle(item: T, include?: boolean): void;
+}
+
+/**
+ * Operations which propagate changes to a discriminated union value.
+ */
+export interface UnionChangeHandler<T, D extends keyof T> {
+    /** A change handler for child inputs which edit a field of the value. */
+    field: FieldChangeHandler<T>;
+    /**
+     * Change the value to another variant, created by that variant's default
+     * factory. Fields which the new variant shares with the current value
+     * keep their current values. This does nothing if the value is already
+     * of the requested variant.
+     */
+    switchVariant(variant: T[D]): void;
+}
+
+/**
+ * Factories for the default value of each variant of a discriminated union
+ * `T`, keyed by the value of the discriminant property `D`. Each receives the
+ * value being replaced.
+ */
+export type VariantFactories<T, D extends keyof T> = {
+    [V in Extract<T[D], string | number>]: (
+        previous: T,
+    ) => Extract<T, { [P in D]: V }>;
+};
+
 /**
  * Props for an externally-controlled user input component.
  * The component should accept a value of `T` and then report changes to
@@ -56,4 +150,3 @@ export interface ControlledInput<T> {
      */
     disabled?: boolean;
 }
-
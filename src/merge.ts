@@ -0,0 +1,101 @@
+import isEqual from 'lodash-es/isEqual';
+import isPlainObject from 'lodash-es/isPlainObject';
+
+import { ObjectPath } from './validation';
+
+export interface MergeResult<T> {
+    /**
+     * `mine` with every non-conflicting change from `theirs` applied. Parts of
+     * `mine` which did not change keep their identity.
+     */
+    value: T;
+    /**
+     * The paths which both sides changed to different values. The merged
+     * value keeps `mine` at these paths.
+     */
+    conflicts: ObjectPath[];
+}
+
+const mergeAt = (
+    base: unknown,
+    mine: unknown,
+    theirs: unknown,
+    path: ObjectPath,
+    conflicts: ObjectPath[],
+): unknown => {
+    if (isEqual(mine, base)) return theirs;
+    if (isEqual(theirs, base) || isEqual(mine, theirs)) return mine;
+
+    if (
+        Array.isArray(base) &&
+        Array.isArray(mine) &&
+        Array.isArray(theirs) &&
+        base.length === mine.length &&
+        mine.length === theirs.length
+    ) {
+        const merged = mine.map((item, i) =>
+            mergeAt(
+                base[i],
+                item,
+                theirs[i],
+                ObjectPath.extend(path, i),
+                conflicts,
+            ),
+        );
+        return merged.every((item, i) => item === mine[i]) ? mine : merged;
+    }
+
+    if (isPlainObject(base) && isPlainObject(mine) && isPlainObject(theirs)) {
+        const b = base as Record<string, unknown>;
+        const m = mine as Record<string, unknown>;
+        const t = theirs as Record<string, unknown>;
+        const keys = Object.keys({ ...b, ...m, ...t });
+
+        let changed = false;
+        const merged: Record<string, unknown> = {};
+        for (const key of keys) {
+            const value = mergeAt(
+                b[key],
+                m[key],
+                t[key],
+                ObjectPath.extend(path, key),
+                conflicts,
+            );
+            if (value === undefined) {
+                changed = changed || key in m;
+            } else {
+                changed = changed || value !== m[key];
+                merged[key] = value;
+            }
+        }
+
+        return changed ? merged : mine;
+    }
+
+    conflicts.push(path);
+    return mine;
+};
+
+/**
+ * Combine two independent edits of the same value. Changes are compared per
+ * `ObjectPath`: a change made on only one side is applied, and a path both
+ * sides changed differently is reported as a conflict.
+ *
+ * Plain objects are merged key by key. Arrays are merged item by item only
+ * when all three have the same length; otherwise a changed array is treated
+ * as a single value, as insertions make indices unreliable. Other values,
+ * including `Map` and `Set`, are compared as a whole.
+ *
+ * @param base The value both edits started from
+ * @param mine The local edit, such as an entity's draft
+ * @param theirs The remote edit, such as a newer saved value
+ */
+export const mergeChanges = <T>(
+    base: T,
+    mine: T,
+    theirs: T,
+): MergeResult<T> => {
+    const conflicts: ObjectPath[] = [];
+    const value = mergeAt(base, mine, theirs, ObjectPath.EMPTY, conflicts);
+    return { value: value as T, conflicts };
+};
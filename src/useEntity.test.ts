@@ -0,0 +1,472 @@
+import { createElement } from 'react';
+import { act, create } from 'react-test-renderer';
+
+import { DraftStorage } from './draftStorage';
+import { Entity } from './entity';
+import { DeletedEntityError, EntityOptions, useEntity } from './useEntity';
+import {
+    AsyncValidator,
+    Diagnostic,
+    ObjectPath,
+    Severity,
+    Validator,
+    validators,
+} from './validation';
+
+/**
+ * Render `useEntity` in a component, keeping the latest entity and updater
+ * in `result.current`.
+ */
+const renderEntity = <T>(
+    initialValue: T,
+    validator?: Validator<T>,
+    options?: EntityOptions<T>,
+) => {
+    const useHook = () => useEntity(initialValue, true, validator, options);
+    const result = {} as { current: ReturnType<typeof useHook> };
+
+    const Host = () => {
+        result.current = useHook();
+        return null;
+    };
+
+    act(() => {
+        create(createElement(Host));
+    });
+
+    return result;
+};
+
+/**
+ * Let timers run for `ms` milliseconds.
+ */
+const wait = (ms: number) =>
+    act(
+        () =>
+            new Promise<void>(resolve => {
+                setTimeout(resolve, ms);
+            }),
+    );
+
+const taken: Diagnostic = {
+    type: 'taken',
+    severity: Severity.Error,
+    message: 'This name is taken',
+    path: ObjectPath.EMPTY,
+};
+
+describe('useEntity', () => {
+    describe('async validation', () => {
+        it('validates a falsy draft', async () => {
+            let resolve: (diagnostics: Diagnostic[]) => void = () => undefined;
+            const asyncValidator: AsyncValidator<string> = () =>
+                new Promise(r => {
+                    resolve = r;
+                });
+            const result = renderEntity<string>('abc', validators.required(), {
+                asyncValidator,
+            });
+            await act(async () => {
+                resolve([]);
+            });
+
+            await act(async () => {
+                result.current[1].update('');
+            });
+            expect(result.current[0].isValidating).toBe(true);
+
+            await act(async () => {
+                resolve([taken]);
+            });
+            expect(result.current[0].isValidating).toBe(false);
+            expect(result.current[0].diagnostics).toContainEqual(taken);
+        });
+
+        it('does not validate a value superseded in the same tick', async () => {
+            const asyncValidator = jest.fn(async () => []);
+            const result = renderEntity<string>('abc', undefined, {
+                asyncValidator,
+            });
+            asyncValidator.mockClear();
+
+            await act(async () => {
+                result.current[1].update('ab');
+                result.current[1].update('a');
+            });
+
+            expect(asyncValidator).toHaveBeenCalledTimes(1);
+            expect(asyncValidator.mock.calls[0]).toEqual([
+                'a',
+                expect.anything(),
+            ]);
+        });
+    });
+
+    describe('normalizers', () => {
+        const trim = (value: string) => value.trim();
+
+        it('stores the normalized value as the draft', async () => {
+            const result = renderEntity<string>('John', validators.required(), {
+                normalizers: [trim],
+            });
+            await act(async () => {
+                result.current[1].update(' ');
+            });
+
+            expect(Entity.latestValue(result.current[0])).toBe('');
+            expect(result.current[0].diagnostics).not.toEqual([]);
+        });
+
+        it('ignores edits which normalize back to the current value', async () => {
+            const result = renderEntity<string>('John', undefined, {
+                normalizers: [trim],
+            });
+            await act(async () => {
+                result.current[1].update('John ');
+            });
+
+            expect(result.current[0].draft).toBeNull();
+            expect(Entity.hasUnsavedChanges(result.current[0])).toBe(false);
+        });
+
+        it('recomputes derived fields from the previous value', async () => {
+            interface Person {
+                first: string;
+                last: string;
+                display: string;
+            }
+            const display = (next: Person, prev: Person) =>
+                next.display === prev.display
+                    ? { ...next, display: `${next.first} ${next.last}` }
+                    : next;
+            const result = renderEntity<Person>(
+                { first: 'a', last: 'b', display: 'a b' },
+                undefined,
+                { normalizers: [display] },
+            );
+
+            await act(async () => {
+                result.current[1].update({
+                    ...Entity.latestValue(result.current[0]),
+                    first: 'Ada',
+                });
+            });
+
+            expect(Entity.latestValue(result.current[0]).display).toBe('Ada b');
+        });
+
+        it('keeps edits made during a save without conflicts', async () => {
+            let finishSave: () => void = () => undefined;
+            const persist = jest.fn(
+                () =>
+                    new Promise<void>(resolve => {
+                        finishSave = resolve;
+                    }),
+            );
+            const result = renderEntity<string>('John', undefined, {
+                normalizers: [trim],
+            });
+            await act(async () => {
+                result.current[1].update(' Ada ');
+            });
+
+            let saving: Promise<void> = Promise.resolve();
+            await act(async () => {
+                saving = result.current[1].save(persist);
+            });
+            await act(async () => {
+                result.current[1].update(' Ada L ');
+            });
+            await act(async () => {
+                finishSave();
+                await saving;
+            });
+
+            expect(persist).toHaveBeenCalledWith('Ada');
+            expect(result.current[0].saved).toBe('Ada');
+            expect(result.current[0].draft).toBe('Ada L');
+            expect(Entity.conflicts(result.current[0])).toEqual([]);
+        });
+    });
+
+    describe('transformForSave', () => {
+        interface Row {
+            a: number;
+            expanded: boolean;
+        }
+
+        it('keeps the untransformed value when the task returns nothing', async () => {
+            const persist = jest.fn(async () => undefined);
+            const result = renderEntity<Row>(
+                { a: 1, expanded: false },
+                undefined,
+                { transformForSave: ({ a }) => ({ a } as Row) },
+            );
+            await act(async () => {
+                result.current[1].update({ a: 2, expanded: true });
+            });
+            await act(async () => {
+                await result.current[1].save(persist);
+            });
+
+            expect(persist).toHaveBeenCalledWith({ a: 2 });
+            expect(result.current[0].saved).toEqual({ a: 2, expanded: true });
+        });
+    });
+
+    describe('draftStorage', () => {
+        const key = 'rule:1';
+
+        it('offers a stored draft for restoring on mount', async () => {
+            const storage = DraftStorage.inMemory();
+            storage.save(key, { a: 2 });
+            const result = renderEntity({ a: 1 }, undefined, {
+                draftStorage: { key, storage },
+            });
+            expect(result.current[1].storedDraft()).toEqual({ a: 2 });
+
+            await act(async () => {
+                result.current[1].restoreDraft();
+            });
+
+            expect(Entity.latestValue(result.current[0])).toEqual({ a: 2 });
+            expect(result.current[1].storedDraft()).toBeUndefined();
+        });
+
+        it('removes a stored draft which matches the initial value', () => {
+            const storage = DraftStorage.inMemory();
+            storage.save(key, { a: 1 });
+            const result = renderEntity({ a: 1 }, undefined, {
+                draftStorage: { key, storage },
+            });
+
+            expect(result.current[1].storedDraft()).toBeUndefined();
+            expect(storage.load(key)).toBeUndefined();
+        });
+
+        it('removes the stored draft once there are no unsaved changes', async () => {
+            const storage = DraftStorage.inMemory();
+            const result = renderEntity({ a: 1 }, undefined, {
+                draftStorage: { key, storage },
+            });
+
+            await act(async () => {
+                result.current[1].update({ a: 2 });
+            });
+            expect(storage.load(key)).toEqual({ a: 2 });
+
+            await act(async () => {
+                result.current[1].update({ a: 1 });
+            });
+            expect(storage.load(key)).toBeUndefined();
+        });
+    });
+
+    describe('autosave', () => {
+        const delayMs = 20;
+
+        it('saves once the user stops editing', async () => {
+            const persist = jest.fn(async () => undefined);
+            const result = renderEntity({ a: 1 }, undefined, {
+                autosave: { persist, delayMs },
+            });
+
+            for (const a of [2, 3, 4]) {
+                await act(async () => {
+                    result.current[1].update({ a });
+                });
+            }
+            expect(persist).not.toHaveBeenCalled();
+            await wait(delayMs * 3);
+
+            expect(persist).toHaveBeenCalledTimes(1);
+            expect(persist).toHaveBeenCalledWith({ a: 4 });
+            expect(result.current[0].saved).toEqual({ a: 4 });
+        });
+
+        it('skips saving while the entity has errors', async () => {
+            const persist = jest.fn(async () => undefined);
+            const result = renderEntity<{ a: number }>(
+                { a: 1 },
+                value => (value.a < 0 ? [taken] : []),
+                { autosave: { persist, delayMs } },
+            );
+
+            await act(async () => {
+                result.current[1].update({ a: -1 });
+            });
+            await wait(delayMs * 3);
+
+            expect(persist).not.toHaveBeenCalled();
+        });
+
+        it('saves edits made during a save once it finishes', async () => {
+            const persisted: { a: number }[] = [];
+            let finishSave: () => void = () => undefined;
+            const persist = (value: { a: number }) => {
+                persisted.push(value);
+                return new Promise<void>(resolve => {
+                    finishSave = resolve;
+                });
+            };
+            const result = renderEntity({ a: 1 }, undefined, {
+                autosave: { persist, delayMs },
+            });
+
+            await act(async () => {
+                result.current[1].update({ a: 2 });
+            });
+            await wait(delayMs * 3);
+            await act(async () => {
+                result.current[1].update({ a: 3 });
+            });
+            await wait(delayMs * 3);
+            expect(persisted).toEqual([{ a: 2 }]);
+
+            await act(async () => {
+                finishSave();
+            });
+            await wait(delayMs * 3);
+            await act(async () => {
+                finishSave();
+            });
+
+            expect(persisted).toEqual([{ a: 2 }, { a: 3 }]);
+            expect(Entity.hasUnsavedChanges(result.current[0])).toBe(false);
+        });
+    });
+
+    describe('delete', () => {
+        const delayMs = 20;
+
+        it('cancels a pending autosave', async () => {
+            const persist = jest.fn(async () => undefined);
+            const result = renderEntity({ a: 1 }, undefined, {
+                autosave: { persist, delayMs },
+            });
+            await act(async () => {
+                result.current[1].update({ a: 2 });
+            });
+
+            let finishDelete: () => void = () => undefined;
+            let deleting: Promise<void> = Promise.resolve();
+            await act(async () => {
+                deleting = result.current[1].delete(
+                    new Promise<void>(resolve => {
+                        finishDelete = resolve;
+                    }),
+                );
+            });
+            await wait(delayMs * 3);
+            expect(persist).not.toHaveBeenCalled();
+
+            await act(async () => {
+                finishDelete();
+                await deleting;
+            });
+            await wait(delayMs * 3);
+            expect(persist).not.toHaveBeenCalled();
+        });
+
+        it('refuses saves while deleting and once deleted', async () => {
+            const persist = jest.fn(async () => undefined);
+            const result = renderEntity({ a: 1 });
+
+            let finishDelete: () => void = () => undefined;
+            let deleting: Promise<void> = Promise.resolve();
+            await act(async () => {
+                deleting = result.current[1].delete(
+                    new Promise<void>(resolve => {
+                        finishDelete = resolve;
+                    }),
+                );
+            });
+            await expect(result.current[1].save(persist)).rejects.toThrow(
+                DeletedEntityError,
+            );
+
+            await act(async () => {
+                finishDelete();
+                await deleting;
+            });
+            await expect(result.current[1].save(persist)).rejects.toThrow(
+                DeletedEntityError,
+            );
+            expect(persist).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('history', () => {
+        it('keeps undo steps for edits made while a save was in flight', async () => {
+            const result = renderEntity<string>('a', undefined, {
+                history: { coalesceMs: 0 },
+            });
+            await act(async () => {
+                result.current[1].update('b');
+            });
+
+            let finishSave: () => void = () => undefined;
+            const saved = new Promise<void>(r => {
+                finishSave = r;
+            });
+            let saving: Promise<void> = Promise.resolve();
+            await act(async () => {
+                saving = result.current[1].save(saved);
+            });
+            await act(async () => {
+                result.current[1].update('c');
+            });
+            await act(async () => {
+                finishSave();
+                await saving;
+            });
+
+            expect(result.current[1].canUndo()).toBe(true);
+            await act(async () => {
+                result.current[1].undo();
+            });
+            expect(Entity.latestValue(result.current[0])).toBe('b');
+        });
+
+        it('clears undo steps once a save leaves no unsaved changes', async () => {
+            const result = renderEntity<string>('a', undefined, {
+                history: { coalesceMs: 0 },
+            });
+            await act(async () => {
+                result.current[1].update('b');
+            });
+            await act(async () => {
+                await result.current[1].save(Promise.resolve());
+            });
+
+            expect(result.current[1].canUndo()).toBe(false);
+        });
+
+        it('ignores undo while the entity is being deleted', async () => {
+            const result = renderEntity<string>('a', undefined, {
+                history: { coalesceMs: 0 },
+            });
+            await act(async () => {
+                result.current[1].update('b');
+            });
+
+            let finishDelete: () => void = () => undefined;
+            const deleted = new Promise<void>(r => {
+                finishDelete = r;
+            });
+            await act(async () => {
+                result.current[1].delete(deleted);
+            });
+            await act(async () => {
+                result.current[1].undo();
+            });
+
+            expect(Entity.latestValue(result.current[0])).toBe('b');
+            expect(result.current[1].canRedo()).toBe(false);
+
+            await act(async () => {
+                finishDelete();
+            });
+        });
+    });
+});
@@ -1,25 +1,319 @@
+import isEqual from 'lodash-es/isEqual';
 import { useEffect, useMemo, useRef, useState } from 'react';
 
+import { DraftStorage } from './draftStorage';
 import { Entity } from './entity';
+import { ConflictResolution, EntityAction } from './entityAction';
 import { isNonVoid } from './util';
-import { Validator } from './validation';
+import {
+    AsyncValidator,
+    createValidationController,
+    Diagnostic,
+    ObjectPath,
+    ValidationController,
+    Validator,
+} from './validation';
 
 const noValidations: Validator<unknown> = () => [];
 
+/**
+ * Optional behaviors for `useEntity`.
+ */
+export interface EntityOptions<T> {
+    /**
+     * Validation which needs to wait on external information, such as a
+     * uniqueness check against the server. This runs after the synchronous
+     * validator whenever the value changes, and its diagnostics are added to
+     * the synchronous ones once it resolves. While it is pending, the entity
+     * has `isValidating` set to `true`.
+     *
+     * A run is aborted when a newer value is passed to `update`, and results
+     * from aborted runs are discarded. A validator which rejects is treated
+     * as having produced no diagnostics.
+     *
+     * As with `validator`, changing this function will cause validation to
+     * rerun, so be sure to memoize it.
+     */
+    asyncValidator?: AsyncValidator<T>;
+    /**
+     * Enable undo and redo of changes made with `update`. History is cleared
+     * when a save leaves no unsaved changes or the saved value is replaced.
+     */
+    history?: EntityHistoryOptions;
+    /**
+     * Keep unsaved drafts in storage so they can be restored after a reload
+     * or crash. See `EntityUpdater#restoreDraft`.
+     */
+    draftStorage?: DraftStorageOptions;
+    /**
+     * Save automatically once the user stops editing. Autosave is skipped
+     * while the entity has errors, and waits for a save in progress to
+     * finish.
+     */
+    autosave?: AutosaveOptions<T>;
+    /**
+     * Track which paths the user has visited in `Entity#touched`, so that
+     * `Entity.touchedDiagnostics` can hide diagnostics for the rest. Call
+     * `EntityUpdater#touch` as the user leaves each input.
+     */
+    trackTouched?: boolean;
+    /**
+     * Control how `EntityUpdater#save` handles invalid values, overlapping
+     * saves and failures. By default, every save runs at once.
+     */
+    savePipeline?: SavePipelineOptions;
+    /**
+     * Canonicalize values passed to `update` before they are validated, such
+     * as trimming strings, converting empty strings to `null`, sorting tag
+     * lists or recomputing derived fields. Normalizers run in order, each
+     * receiving the previous one's result.
+     *
+     * The draft holds the normalized value, so diagnostics, dirtiness checks,
+     * patches and saves all see the canonical form, and edits which normalize
+     * away don't count as unsaved changes. Normalizers run on every
+     * keystroke, so make sure they don't fight the user; for example,
+     * trimming only the start of a string still lets the user type a space
+     * between words.
+     */
+    normalizers?: Normalizer<T>[];
+    /**
+     * Extract field errors from the rejection of a save, such as a 400
+     * response whose body can be converted with
+     * `ServerDiagnostics.fromResponseBody`. The returned diagnostics are
+     * added to the entity and each is removed once the user edits the value
+     * at its path, or when a later save succeeds.
+     *
+     * The function also receives the value that was being saved, which the
+     * `ServerDiagnostics` adapters can use to resolve ambiguous paths.
+     */
+    saveErrorDiagnostics?(error: unknown, value: T): Diagnostic[];
+    /**
+     * Transform the value passed to a function `SaveTask`, such as to remove
+     * client-only fields. Neither the draft nor the saved value is changed;
+     * only a value returned by the save task replaces the saved value.
+     */
+    transformForSave?(value: T): T;
+}
+
+/**
+ * Produce a canonical form of a value passed to `update`.
+ *
+ * @param next The value being applied, or the previous normalizer's result
+ * @param prev The latest value before the update
+ */
+export type Normalizer<T> = (next: T, prev: T) => T;
+
+export interface SavePipelineOptions {
+    /**
+     * What to do when a save is requested while the entity has error-level
+     * diagnostics, checked after async validation settles:
+     *
+     * - `'allow'`: save anyway. This is the default.
+     * - `'refuse'`: reject with an `InvalidEntityError`.
+     * - `'defer'`: wait until the user fixes the errors, then save the
+     *   fixed value. `isSaving` is cleared while waiting so the user can edit.
+     */
+    whenInvalid?: 'allow' | 'refuse' | 'defer';
+    /**
+     * What to do when a save is requested while another is in flight:
+     *
+     * - `'parallel'`: start it at once. This is the default.
+     * - `'queue'`: start it once every earlier save has finished.
+     * - `'latest'`: as `'queue'`, but only the most recently requested of
+     *   the waiting saves runs; the others settle along with it.
+     */
+    overlap?: 'parallel' | 'queue' | 'latest';
+    /**
+     * Make the value being sent the saved value as soon as the save starts,
+     * restoring the previous saved value if the save fails.
+     */
+    optimistic?: boolean;
+    /**
+     * Retry saves which fail with transient errors.
+     */
+    retry?: SaveRetryOptions;
+}
+
+export interface SaveRetryOptions {
+    /**
+     * The maximum number of attempts, including the first. Defaults to 3.
+     */
+    attempts?: number;
+    /**
+     * The wait before the first retry, in milliseconds. Each further retry
+     * waits twice as long as the one before. Defaults to 500.
+     */
+    delayMs?: number;
+    /**
+     * Check if a save error is worth retrying, such as a network failure or a
+     * 503 response.
+     */
+    isTransient(error: unknown): boolean;
+}
+
+export interface DraftStorageOptions {
+    /**
+     * Identifies this entity's draft in `storage`, such as
+     * `device-form:123`. Use a different key for each entity.
+     */
+    key: string;
+    storage: DraftStorage;
+}
+
+export interface AutosaveOptions<T> {
+    /**
+     * How long to wait after the last update before saving, in milliseconds.
+     * Defaults to 1000.
+     */
+    delayMs?: number;
+    /**
+     * Send the value to the server. This is passed to `EntityUpdater#save`,
+     * so it may return the value the server stored.
+     */
+    persist(value: T): Promise<T | undefined | void>;
+    /**
+     * Called when an autosave fails. Diagnostics from the
+     * `saveErrorDiagnostics` option are added to the entity either way.
+     */
+    onError?(error: unknown): void;
+}
+
+export interface EntityHistoryOptions {
+    /**
+     * The maximum number of undo steps to keep. Defaults to 100.
+     */
+    depth?: number;
+    /**
+     * Updates made within this many milliseconds of the previous update are
+     * merged into the same undo step, so that typing a word can be undone
+     * at once. Defaults to 500; set to 0 to record every update.
+     */
+    coalesceMs?: number;
+}
+
+const DEFAULT_HISTORY_DEPTH = 100;
+const DEFAULT_COALESCE_MS = 500;
+const DEFAULT_AUTOSAVE_DELAY_MS = 1000;
+const DEFAULT_SAVE_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/**
+ * The rejection of a save refused by the `whenInvalid: 'refuse'` pipeline
+ * option.
+ */
+export class InvalidEntityError extends Error {
+    constructor() {
+        super('Cannot save an entity which has errors');
+    }
+}
+
+/**
+ * The rejection of a save requested while the entity is being deleted, or
+ * after it was deleted.
+ */
+export class DeletedEntityError extends Error {
+    constructor() {
+        super('Cannot save an entity which is being deleted');
+    }
+}
+
+const delay = (ms: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, ms));
+
+// tslint:disable-next-line:no-empty
+const noop = () => {};
+
+/**
+ * Run a save task, retrying transient failures. Only function tasks can be
+ * retried, as a promise can't be restarted.
+ */
+const attemptSave = async <T>(
+    task: SaveTask<T>,
+    value: T,
+    retry: SaveRetryOptions | undefined,
+    isCancelled: () => boolean,
+): Promise<T | undefined | void> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await (typeof task === 'function' ? task(value) : task);
+        } catch (e) {
+            const {
+                attempts = DEFAULT_SAVE_ATTEMPTS,
+                delayMs = DEFAULT_RETRY_DELAY_MS,
+            } = retry || {};
+            if (
+                typeof task !== 'function' ||
+                !retry ||
+                attempt >= attempts ||
+                !retry.isTransient(e)
+            ) {
+                throw e;
+            }
+
+            await delay(delayMs * 2 ** (attempt - 1));
+            if (isCancelled()) throw e;
+        }
+    }
+};
+
+interface WaitingSave<T> {
+    task: SaveTask<T>;
+    done: Promise<void>;
+}
+
+interface History<T> {
+    /** Earlier values, oldest first. */
+    past: T[];
+    /** Values which were undone, most recently undone last. */
+    future: T[];
+    /** When `update` was last called, or 0 if the next update starts a step. */
+    lastUpdateAt: number;
+}
+
+const emptyHistory = <T>(): History<T> => ({
+    past: [],
+    future: [],
+    lastUpdateAt: 0,
+});
+
+/**
+ * The operation passed to `EntityUpdater#save`. A function will be invoked with
+ * the value to save once any in-flight async validation has completed; a
+ * promise is assumed to already be sending the latest value.
+ */
+export type SaveTask<T> =
+    | Promise<T | undefined | void>
+    | ((value: T) => Promise<T | undefined | void>);
+
+interface PendingValidation {
+    controller: ValidationController;
+    /**
+     * Resolves when the run completes or is aborted. This never rejects.
+     */
+    done: Promise<void>;
+}
+
 interface EntityUpdater<T> {
     /**
      * Update the draft value and recompute diagnostics. It is safe to call this
      * without using `bind`, so it can be passed directly to `onChange` in a
-     * React component.
+     * React component. Updates are ignored while the entity is being deleted.
      * @param value The new work-in-progress value
      */
     update(value: T): void;
     /**
-     * Update the saved value.
+     * Update the saved value. If there is a draft, changes the server made to
+     * fields the user has not edited are applied to it, and fields both sides
+     * changed are reported as conflicts. See `Entity.conflicts`.
      *
      * @param value The latest value from the server
      */
     updateSaved(value: T): void;
+    /**
+     * Settle the conflicts at or under `path`, either by keeping the draft's
+     * value (`'mine'`) or by replacing it with the saved value (`'theirs'`).
+     */
+    resolveConflict(path: ObjectPath, resolution: ConflictResolution): void;
     /**
      * Mark whether or not the `Entity` is being saved to the server. Inputs
      * that consume entities use this information to block user input while
@@ -33,20 +327,109 @@ interface EntityUpdater<T> {
      *
      * 1. Setting `isSaving` on the entity to prevent in-flight edits.
      * 2. Clearing `draft` on save completion so the user sees the latest server
-     *    value.
+     *    value. Edits made while the save was in flight are kept as a new
+     *    draft on top of that value.
      * 3. Running local validators on the just-saved value so that warnings are
-     *    not lost on save.
+     *    not lost on save. Only the synchronous validator is rerun.
+     *
+     * The `savePipeline` option can refuse or defer saves of invalid values,
+     * serialize overlapping saves, update `saved` optimistically and retry
+     * transient failures. Only function tasks can be deferred, queued or
+     * retried, as a promise is already running when it is passed in.
      *
      * @param savePromise The async operation that is sending the local copy
      * of the entity to the backend. If this returns a value, that will be
      * used as the new `saved` value. Otherwise, the `draft` value when the save
      * started will be used.
      *
+     * If this is a function, it is called with the value to save after any
+     * in-flight async validation completes, so the caller can inspect the
+     * resulting diagnostics before anything is sent to the server.
+     *
      * @returns A promise that completes when the save operation and associated
      * state changes are complete. If the save promise rejects, the rejection
-     * will contain the error from the passed-in `savePromise`.
+     * will contain the error from the passed-in `savePromise`, and any
+     * diagnostics returned by the `saveErrorDiagnostics` option for that
+     * error are added to the entity. A save refused by the pipeline rejects
+     * with an `InvalidEntityError`, and a save requested while the entity is
+     * being deleted or after it was deleted rejects with a
+     * `DeletedEntityError`.
+     */
+    save(savePromise: SaveTask<T>): Promise<void>;
+    /**
+     * Record that the user visited `path`, such as in an input's blur
+     * handler. This does nothing unless the `trackTouched` option is set.
+     */
+    touch(path: ObjectPath): void;
+    /**
+     * Treat every path as visited. `save` does this automatically.
+     */
+    touchAll(): void;
+    /**
+     * Drop the draft, reverting to the saved value, and revalidate. New
+     * entities have nothing to revert to, so this does nothing for them; use
+     * `delete` instead.
+     */
+    discardChanges(): void;
+    /**
+     * Replace the entity with a fresh one, as when the hook was first called.
+     * Undo history is cleared.
+     *
+     * @param value The new value
+     * @param isSaved Whether `value` is already known to the backend
+     */
+    reset(value: T, isSaved: boolean): void;
+    /**
+     * Handle local state updates associated with deleting an entity. While
+     * the promise is pending, `isDeleting` is set and updates are ignored.
+     * A pending autosave is cancelled, and saves are refused until the delete
+     * fails or `reset` is called.
+     *
+     * @param deletePromise The async operation deleting the entity on the
+     * backend
+     *
+     * @returns A promise that completes when the delete operation and
+     * associated state changes are complete. If the delete promise rejects,
+     * the rejection will contain the error from `deletePromise`.
+     */
+    delete(deletePromise: Promise<unknown>): Promise<void>;
+    /**
+     * Wait for any in-flight async validation of the latest value to finish.
+     *
+     * @returns A promise that resolves once no async validation is pending.
+     * If `update` is called while waiting, this also waits for validation of
+     * the newer value.
+     */
+    validated(): Promise<void>;
+    /**
+     * Revert the most recent step of changes made with `update`. This does
+     * nothing unless the `history` option is set, or while the entity is
+     * being deleted.
+     */
+    undo(): void;
+    /**
+     * Reapply the most recently undone step of changes. This does nothing
+     * while the entity is being deleted.
+     */
+    redo(): void;
+    /** Whether there are changes which `undo` can revert. */
+    canUndo(): boolean;
+    /** Whether there are undone changes which `redo` can reapply. */
+    canRedo(): boolean;
+    /**
+     * Get the draft found in storage on mount, if it differs from the initial
+     * value. This is cleared once the draft is restored or discarded, or when
+     * the user starts a new edit, which replaces the stored copy.
+     */
+    storedDraft(): T | undefined;
+    /**
+     * Make the draft found in storage the current draft.
+     */
+    restoreDraft(): void;
+    /**
+     * Remove the draft found in storage without restoring it.
      */
-    save(savePromise: Promise<T | undefined | void>): Promise<void>;
+    discardStoredDraft(): void;
 }
 
 /**
@@ -58,6 +441,7 @@ interface EntityUpdater<T> {
  * @param validator The validation function to apply on updates. Changing this
  * function will cause validation to rerun - be sure to memoize if it's
  * declared within the component. By default, no validations are run.
+ * @param options Additional behaviors, such as async validation.
  *
  * @returns An `Entity<T>` with the latest value, and an object with functions
  * to update the entity.
@@ -66,14 +450,33 @@ export const useEntity = <T>(
     initialValue: T,
     isSaved: boolean,
     validator: Validator<T> = noValidations,
+    options: EntityOptions<T> = {},
 ): [Entity<T>, EntityUpdater<T>] => {
+    const { asyncValidator } = options;
     const [inner, setInner] = useState<Entity<T>>(() => ({
-        ...(isSaved
-            ? Entity.createSaved(initialValue)
-            : Entity.createUnsaved(initialValue)),
-        diagnostics: validator(initialValue),
+        ...Entity.reduce(
+            isSaved
+                ? Entity.createSaved(initialValue)
+                : Entity.createUnsaved(initialValue),
+            EntityAction.revalidate(),
+            validator,
+        ),
+        isValidating: Boolean(asyncValidator),
+        ...(options.trackTouched ? { touched: [] } : {}),
     }));
 
+    const [storedDraft, setStoredDraft] = useState<{ value: T } | null>(() => {
+        const { draftStorage } = options;
+        if (!draftStorage) return null;
+
+        const value = draftStorage.storage.load(draftStorage.key);
+        return value === undefined || isEqual(value, initialValue)
+            ? null
+            : { value: value as T };
+    });
+    const liveStoredDraft = useRef(storedDraft);
+    liveStoredDraft.current = storedDraft;
+
     /**
      * If `true`, the parent component has been unmounted and we should be dead,
      * but if we're reading this and it's true we've been kept alive because
@@ -83,11 +486,154 @@ export const useEntity = <T>(
     useEffect(
         () => () => {
             isUnmounted.current = true;
+            asyncValidation.cancel();
+            // Let deferred saves finish, now that they will do nothing.
+            validWaiters.current.forEach(resolve => resolve());
         },
         [],
     );
 
+    /**
+     * A reference to the state value which we can read from our updater
+     * methods.
+     */
+    const liveEntity = useRef(inner);
+    liveEntity.current = inner;
+
+    const liveOptions = useRef(options);
+    liveOptions.current = options;
+
     const liveValidator = useRef(validator);
+    const liveAsyncValidator = useRef(asyncValidator);
+    const pendingValidation = useRef<PendingValidation | null>(null);
+    const history = useRef<History<T>>(emptyHistory());
+
+    /**
+     * Settles once every serialized save requested so far has finished.
+     */
+    const saveChain = useRef<Promise<void>>(Promise.resolve());
+    /**
+     * The save waiting for its turn when `overlap` is `'latest'`.
+     */
+    const waitingSave = useRef<WaitingSave<T> | null>(null);
+    /**
+     * Saves deferred until the entity has no errors.
+     */
+    const validWaiters = useRef<(() => void)[]>([]);
+    /**
+     * Set once `delete` succeeds, after which saves are refused.
+     */
+    const isDeleted = useRef(false);
+    /**
+     * Whether an edit is waiting to be autosaved. This stays set while a save
+     * is in flight, so that edits made during it are saved once it finishes.
+     */
+    const autosaveDue = useRef(false);
+    const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    /**
+     * Apply actions to the latest entity in order and store the result. The
+     * live reference is updated immediately so that several dispatches in the
+     * same tick each see the previous one's result.
+     */
+    const dispatch = (...actions: EntityAction<T>[]) => {
+        const next = actions.reduce(
+            (entity, action) =>
+                Entity.reduce(entity, action, liveValidator.current),
+            liveEntity.current,
+        );
+        liveEntity.current = next;
+        setInner(next);
+
+        if (
+            validWaiters.current.length &&
+            !next.isValidating &&
+            !Entity.hasErrors(next)
+        ) {
+            const waiters = validWaiters.current;
+            validWaiters.current = [];
+            waiters.forEach(resolve => resolve());
+        }
+    };
+
+    /**
+     * Bookkeeping for async validation runs. Only the run for the latest value
+     * is allowed to write its diagnostics to the entity.
+     */
+    const asyncValidation = useMemo(
+        () => ({
+            /**
+             * Abort any pending run and start validating `value`.
+             *
+             * @returns `true` if a run was started, in which case the caller
+             * should set `isValidating` on the entity.
+             */
+            start(value: T): boolean {
+                asyncValidation.cancel();
+
+                const validate = liveAsyncValidator.current;
+                if (!validate) return false;
+
+                const controller = createValidationController();
+                const { signal } = controller;
+                const finish = (diagnostics: Diagnostic[]) => {
+                    if (signal.aborted || isUnmounted.current) return;
+                    pendingValidation.current = null;
+                    dispatch(
+                        EntityAction.validationFinished(value, diagnostics),
+                    );
+                };
+
+                const done = new Promise<void>(resolve => {
+                    signal.addEventListener('abort', resolve);
+                    // A later update may have aborted this run before it
+                    // started, in which case there's nothing to validate.
+                    Promise.resolve()
+                        .then(() =>
+                            signal.aborted ? [] : validate(value, signal),
+                        )
+                        .then(finish, () => finish([]))
+                        .then(resolve);
+                });
+
+                pendingValidation.current = { controller, done };
+                return true;
+            },
+            /**
+             * Abort the pending run, if there is one. This does not update
+             * `isValidating`.
+             */
+            cancel() {
+                const pending = pendingValidation.current;
+                pendingValidation.current = null;
+                if (pending) pending.controller.abort();
+            },
+            async settled() {
+                while (pendingValidation.current) {
+                    await pendingValidation.current.done;
+                }
+            },
+            /**
+             * Start validating `value`, returning the actions which mark the
+             * run as pending.
+             */
+            actionsFor(value: T): EntityAction<T>[] {
+                return asyncValidation.start(value)
+                    ? [EntityAction.validationStarted(value)]
+                    : [];
+            },
+        }),
+        [],
+    );
+
+    // The first async validation run can't be started until after mount, as
+    // it may complete and update state.
+    useEffect(
+        () => {
+            asyncValidation.start(Entity.latestValue(liveEntity.current));
+        },
+        [],
+    );
 
     // Validators can close over external state which may impact validation, so
     // if the function is not referentially-equal to the last one we got, we
@@ -97,89 +643,414 @@ export const useEntity = <T>(
     // unmemoized lambda in their component/hook, but there's no way to stop
     // that short of removing the _ability_ to change the validator after first
     // first calling the hook, and that seems heavy-handed.
-    if (validator !== liveValidator.current) {
+    if (
+        validator !== liveValidator.current ||
+        asyncValidator !== liveAsyncValidator.current
+    ) {
         liveValidator.current = validator;
-        setInner({
-            ...inner,
-            diagnostics: validator(Entity.latestValue(inner)),
-        });
+        liveAsyncValidator.current = asyncValidator;
+        dispatch(
+            EntityAction.revalidate(),
+            ...asyncValidation.actionsFor(Entity.latestValue(inner)),
+        );
     }
 
-    /**
-     * A reference to the state value which we can read from our updater
-     * methods.
-     */
-    const liveEntity = useRef(inner);
-    liveEntity.current = inner;
-
     /**
      * Memoized updater methods are used so that downstream code doesn't have
      * to declare these functions as dependencies in their memoizations or
      * callbacks.
      */
-    const updateMethods = useMemo<EntityUpdater<T>>(
-        () => ({
-            update(newValue) {
-                setInner({
-                    ...liveEntity.current,
-                    draft: newValue,
-                    diagnostics: liveValidator.current(newValue),
-                });
+    const updateMethods = useMemo<EntityUpdater<T>>(() => {
+        /**
+         * Make `value` the draft and revalidate it.
+         */
+        const applyDraft = (value: T) => {
+            dispatch(
+                EntityAction.update(value),
+                ...asyncValidation.actionsFor(value),
+            );
+        };
+
+        /**
+         * Record the current value as an undo step, unless it is part of a
+         * burst of updates which should be undone together.
+         */
+        const recordHistory = () => {
+            const historyOptions = liveOptions.current.history;
+            if (!historyOptions) return;
+
+            const {
+                depth = DEFAULT_HISTORY_DEPTH,
+                coalesceMs = DEFAULT_COALESCE_MS,
+            } = historyOptions;
+            const now = Date.now();
+            const h = history.current;
+
+            if (!h.lastUpdateAt || now - h.lastUpdateAt >= coalesceMs) {
+                h.past.push(Entity.latestValue(liveEntity.current));
+                h.past.splice(0, Math.max(0, h.past.length - depth));
+            }
+
+            h.future = [];
+            h.lastUpdateAt = now;
+        };
+
+        /**
+         * Dispatch an action which may replace the draft, restarting async
+         * validation if it does.
+         */
+        const dispatchRebase = (action: EntityAction<T>) => {
+            const previous = liveEntity.current.draft;
+            dispatch(action);
+            const { draft } = liveEntity.current;
+            if (draft === previous || draft === null) return;
+
+            const validation = asyncValidation.actionsFor(draft);
+            if (validation.length) dispatch(...validation);
+        };
+
+        /**
+         * Wait until the entity has no errors and no pending validation.
+         */
+        const untilValid = () =>
+            new Promise<void>(resolve => {
+                validWaiters.current.push(resolve);
+            });
+
+        /**
+         * Whether the entity is being deleted or has been deleted.
+         */
+        const isGone = () => liveEntity.current.isDeleting || isDeleted.current;
+
+        /**
+         * Run one save through error gating, retries and optimistic updates.
+         */
+        const runSave = async (task: SaveTask<T>): Promise<void> => {
+            const { whenInvalid = 'allow', optimistic, retry } =
+                liveOptions.current.savePipeline || {};
+            if (isGone()) throw new DeletedEntityError();
+
+            let valueAtSaveTime = Entity.latestValue(liveEntity.current);
+
+            if (typeof task === 'function') {
+                dispatch(EntityAction.touchAll(), EntityAction.setSaving(true));
+                await asyncValidation.settled();
+                if (isUnmounted.current) return;
+
+                if (
+                    whenInvalid !== 'allow' &&
+                    Entity.hasErrors(liveEntity.current)
+                ) {
+                    dispatch(EntityAction.setSaving(false));
+                    if (whenInvalid === 'refuse') {
+                        throw new InvalidEntityError();
+                    }
+
+                    await untilValid();
+                    if (isUnmounted.current) return;
+                }
+
+                // A delete may have started while this save was waiting.
+                if (isGone()) {
+                    dispatch(EntityAction.setSaving(false));
+                    throw new DeletedEntityError();
+                }
+
+                valueAtSaveTime = Entity.latestValue(liveEntity.current);
+            }
+
+            // A promise is already sending the untransformed value.
+            const { transformForSave } = liveOptions.current;
+            const valueToSend =
+                transformForSave && typeof task === 'function'
+                    ? transformForSave(valueAtSaveTime)
+                    : valueAtSaveTime;
+
+            const previousSaved = liveEntity.current.saved;
+            dispatch(
+                EntityAction.saveStarted(
+                    optimistic ? valueAtSaveTime : undefined,
+                ),
+            );
+
+            // An error here will cause the function to return a rejected
+            // promise. The caller is responsible for deciding how to handle
+            // save failure.
+            try {
+                const fromPromise = await attemptSave(
+                    task,
+                    valueToSend,
+                    retry,
+                    () => isUnmounted.current,
+                );
+
+                // If we were unmounted while the promise was pending,
+                // we should do nothing.
+                if (isUnmounted.current) return;
+                const saved = isNonVoid(fromPromise)
+                    ? fromPromise
+                    : valueAtSaveTime;
+
+                asyncValidation.cancel();
+                dispatch(EntityAction.saveSucceeded(saved, valueAtSaveTime));
+
+                // Edits made during the save are kept as a new draft, which
+                // still needs async validation and can still be undone.
+                const { draft } = liveEntity.current;
+                if (draft === null) {
+                    history.current = emptyHistory();
+                } else {
+                    const validation = asyncValidation.actionsFor(draft);
+                    if (validation.length) dispatch(...validation);
+                }
+            } catch (e) {
+                if (!isUnmounted.current) {
+                    const { saveErrorDiagnostics } = liveOptions.current;
+                    dispatch(
+                        EntityAction.saveFailed(
+                            saveErrorDiagnostics &&
+                                saveErrorDiagnostics(e, valueToSend),
+                            optimistic ? { saved: previousSaved } : undefined,
+                        ),
+                    );
+                }
+
+                throw e;
+            }
+        };
+
+        const update = (newValue: T) => {
+            const current = liveEntity.current;
+            if (current.isDeleting) return;
+
+            const { normalizers = [] } = liveOptions.current;
+            const prev = Entity.latestValue(current);
+            const value = normalizers.reduce(
+                (next, normalize) => normalize(next, prev),
+                newValue,
+            );
+
+            // Edits which normalize back to the current value, such as
+            // trailing whitespace when trimming, change nothing.
+            if (normalizers.length && isEqual(value, prev)) return;
+
+            recordHistory();
+            applyDraft(value);
+        };
+
+        return {
+            update,
+            undo() {
+                const h = history.current;
+                if (!h.past.length || liveEntity.current.isDeleting) return;
+                const previous = h.past.pop() as T;
+
+                h.future.push(Entity.latestValue(liveEntity.current));
+                h.lastUpdateAt = 0;
+                applyDraft(previous);
+            },
+            redo() {
+                const h = history.current;
+                if (!h.future.length || liveEntity.current.isDeleting) return;
+                const next = h.future.pop() as T;
+
+                h.past.push(Entity.latestValue(liveEntity.current));
+                h.lastUpdateAt = 0;
+                applyDraft(next);
             },
+            canUndo: () => history.current.past.length > 0,
+            canRedo: () => history.current.future.length > 0,
             updateSaved(value) {
-                setInner({
-                    ...liveEntity.current,
-                    saved: value,
-                });
+                history.current = emptyHistory();
+                dispatchRebase(EntityAction.updateSaved(value));
+            },
+            resolveConflict(path, resolution) {
+                dispatchRebase(EntityAction.resolveConflict(path, resolution));
             },
             setSaving(isSaving) {
-                setInner({
-                    ...liveEntity.current,
-                    isSaving,
-                });
+                dispatch(EntityAction.setSaving(isSaving));
             },
-            async save(savePromise) {
-                const valueAtSaveTime = Entity.latestValue(liveEntity.current);
-                setInner({
-                    ...liveEntity.current,
-                    isSaving: true,
-                });
+            save(savePromise) {
+                const { overlap = 'parallel' } =
+                    liveOptions.current.savePipeline || {};
+                if (overlap === 'parallel') return runSave(savePromise);
 
-                // An error here will cause the function to return a rejected
-                // promise. The caller is responsible for deciding how to handle
-                // save failure.
-                try {
-                    const fromPromise = await savePromise;
+                // A promise is already running, so it can't wait its turn,
+                // but later saves still wait for it.
+                if (typeof savePromise !== 'function') {
+                    const running = runSave(savePromise);
+                    saveChain.current = Promise.all([
+                        saveChain.current,
+                        running,
+                    ]).then(noop, noop);
+                    return running;
+                }
 
+                const waiting = waitingSave.current;
+                if (overlap === 'latest' && waiting) {
+                    waiting.task = savePromise;
+                    return waiting.done;
+                }
+
+                const next: WaitingSave<T> = {
+                    task: savePromise,
+                    done: saveChain.current.then(() => {
+                        if (waitingSave.current === next) {
+                            waitingSave.current = null;
+                        }
+                        return runSave(next.task);
+                    }),
+                };
+                if (overlap === 'latest') waitingSave.current = next;
+                saveChain.current = next.done.then(noop, noop);
+                return next.done;
+            },
+            touch(path) {
+                dispatch(EntityAction.touch(path));
+            },
+            touchAll() {
+                dispatch(EntityAction.touchAll());
+            },
+            discardChanges() {
+                const { saved } = liveEntity.current;
+                if (saved === null) return;
+
+                history.current = emptyHistory();
+                dispatch(
+                    EntityAction.discardChanges(),
+                    ...asyncValidation.actionsFor(saved),
+                );
+            },
+            reset(value, isSavedValue) {
+                isDeleted.current = false;
+                history.current = emptyHistory();
+                dispatch(
+                    EntityAction.reset(value, isSavedValue),
+                    ...asyncValidation.actionsFor(value),
+                );
+            },
+            async delete(deletePromise) {
+                autosaveDue.current = false;
+                if (autosaveTimer.current !== null) {
+                    clearTimeout(autosaveTimer.current);
+                    autosaveTimer.current = null;
+                }
+                dispatch(EntityAction.deleteStarted());
+
+                try {
+                    await deletePromise;
+                } finally {
                     // If we were unmounted while the promise was pending,
                     // we should do nothing.
-                    if (isUnmounted.current) return;
-                    const current = liveEntity.current;
-                    const saved = isNonVoid(fromPromise)
-                        ? fromPromise
-                        : valueAtSaveTime;
-
-                    setInner({
-                        ...current,
-                        isSaving: false,
-                        draft: null,
-                        saved,
-                        diagnostics: liveValidator.current(saved),
-                    });
-                } catch (e) {
                     if (!isUnmounted.current) {
-                        setInner({
-                            ...liveEntity.current,
-                            isSaving: false,
-                        });
+                        dispatch(EntityAction.deleteFinished());
                     }
-
-                    throw e;
                 }
+
+                isDeleted.current = true;
+                history.current = emptyHistory();
+                const { draftStorage } = liveOptions.current;
+                if (draftStorage) draftStorage.storage.remove(draftStorage.key);
             },
-        }),
-        [],
-    );
+            validated() {
+                return asyncValidation.settled();
+            },
+            storedDraft() {
+                const stored = liveStoredDraft.current;
+                return stored ? stored.value : undefined;
+            },
+            restoreDraft() {
+                const stored = liveStoredDraft.current;
+                if (!stored) return;
+                liveStoredDraft.current = null;
+                setStoredDraft(null);
+                update(stored.value);
+            },
+            discardStoredDraft() {
+                const { draftStorage } = liveOptions.current;
+                liveStoredDraft.current = null;
+                setStoredDraft(null);
+                if (draftStorage) draftStorage.storage.remove(draftStorage.key);
+            },
+        };
+    }, []);
+
+    // A stored draft which matches the initial value has nothing to offer.
+    useEffect(() => {
+        const { draftStorage } = liveOptions.current;
+        if (draftStorage && !liveStoredDraft.current) {
+            draftStorage.storage.remove(draftStorage.key);
+        }
+    }, []);
+
+    /**
+     * The draft that was last stored and scheduled for autosave, used to skip
+     * the initial render and changes which don't touch the draft.
+     */
+    const lastDraft = useRef(inner.draft);
+    useEffect(() => {
+        const { draftStorage, autosave } = liveOptions.current;
+
+        if (inner.draft !== lastDraft.current) {
+            lastDraft.current = inner.draft;
+            const hasChanges = Entity.hasUnsavedChanges(inner);
+            autosaveDue.current = hasChanges;
+
+            // Editing replaces the stored copy, so it can no longer be
+            // restored.
+            if (draftStorage) {
+                setStoredDraft(null);
+                if (hasChanges) {
+                    draftStorage.storage.save(draftStorage.key, inner.draft);
+                } else {
+                    draftStorage.storage.remove(draftStorage.key);
+                }
+            }
+        }
+
+        if (
+            !autosave ||
+            !autosaveDue.current ||
+            inner.isSaving ||
+            inner.isDeleting ||
+            isDeleted.current
+        ) {
+            return;
+        }
+
+        const {
+            persist,
+            delayMs = DEFAULT_AUTOSAVE_DELAY_MS,
+            onError,
+        } = autosave;
+        const timer = setTimeout(async () => {
+            autosaveTimer.current = null;
+            await asyncValidation.settled();
+            const current = liveEntity.current;
+            // A save which started in the meantime reschedules this one when
+            // it finishes.
+            if (isUnmounted.current || current.isSaving) return;
+
+            autosaveDue.current = false;
+            if (
+                !Entity.hasUnsavedChanges(current) ||
+                Entity.hasErrors(current) ||
+                current.isDeleting ||
+                isDeleted.current
+            ) {
+                return;
+            }
+
+            try {
+                await updateMethods.save(persist);
+            } catch (e) {
+                if (onError) onError(e);
+            }
+        }, delayMs);
+        autosaveTimer.current = timer;
+
+        return () => clearTimeout(timer);
+    }, [inner.draft, inner.isSaving]);
 
     return [inner, updateMethods];
 };
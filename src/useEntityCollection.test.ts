@@ -0,0 +1,145 @@
+import { createElement } from 'react';
+import { act, create } from 'react-test-renderer';
+
+import { Entity } from './entity';
+import { EntityCollection } from './entityCollection';
+import {
+    DuplicateEntityError,
+    SaveAllResult,
+    useEntityCollection,
+} from './useEntityCollection';
+import { DiagnosticType, ObjectPath, validators } from './validation';
+
+/**
+ * Render `useEntityCollection` with required-string rows, keeping the latest
+ * collection and updater in `result.current`.
+ */
+const renderCollection = (initialItems: [number, string][]) => {
+    const validator = validators.required();
+    const useHook = () => useEntityCollection(initialItems, validator);
+    const result = {} as { current: ReturnType<typeof useHook> };
+
+    const Host = () => {
+        result.current = useHook();
+        return null;
+    };
+
+    act(() => {
+        create(createElement(Host));
+    });
+
+    return result;
+};
+
+describe('useEntityCollection', () => {
+    describe('saveAll', () => {
+        it('reports failures per entity and keeps their drafts', async () => {
+            const result = renderCollection([
+                [1, 'a'],
+                [2, 'b'],
+                [3, 'c'],
+            ]);
+            await act(async () => {
+                result.current[1].update(1, 'A');
+                result.current[1].update(2, 'B');
+            });
+
+            const error = new Error('Conflict');
+            const saveTask = jest.fn(async (value: string, id: number) => {
+                if (id === 2) throw error;
+                return value;
+            });
+            let outcome: SaveAllResult<number> | undefined;
+            await act(async () => {
+                outcome = await result.current[1].saveAll(saveTask);
+            });
+
+            expect(outcome).toEqual({
+                saved: [1],
+                failed: [{ id: 2, error }],
+            });
+            expect(saveTask).toHaveBeenCalledTimes(2);
+
+            const [collection] = result.current;
+            expect(Entity.hasUnsavedChanges(collection.get(1)!)).toBe(false);
+            expect(collection.get(1)!.saved).toBe('A');
+            expect(Entity.latestValue(collection.get(2)!)).toBe('B');
+            expect(Entity.hasUnsavedChanges(collection.get(2)!)).toBe(true);
+        });
+    });
+
+    describe('delete', () => {
+        it('removes a new entity at once', async () => {
+            const result = renderCollection([[1, 'a']]);
+            await act(async () => {
+                result.current[1].add(2, 'b');
+            });
+
+            await act(async () => {
+                await result.current[1].delete(2, new Promise(() => undefined));
+            });
+
+            expect(Array.from(result.current[0].keys())).toEqual([1]);
+        });
+
+        it('removes a saved entity once the delete succeeds', async () => {
+            const result = renderCollection([[1, 'a']]);
+
+            let finishDelete: () => void = () => undefined;
+            let deleting = Promise.resolve();
+            await act(async () => {
+                deleting = result.current[1].delete(
+                    1,
+                    new Promise<void>(resolve => {
+                        finishDelete = resolve;
+                    }),
+                );
+            });
+            expect(result.current[0].get(1)!.isDeleting).toBe(true);
+
+            await act(async () => {
+                finishDelete();
+                await deleting;
+            });
+            expect(result.current[0].has(1)).toBe(false);
+        });
+
+        it('keeps a saved entity when the delete fails', async () => {
+            const result = renderCollection([[1, 'a']]);
+            const error = new Error('Forbidden');
+
+            await act(async () => {
+                await expect(
+                    result.current[1].delete(1, Promise.reject(error)),
+                ).rejects.toBe(error);
+            });
+
+            expect(result.current[0].get(1)!.isDeleting).toBe(false);
+        });
+    });
+
+    it('refuses to add an ID which is already in use', () => {
+        const result = renderCollection([[1, 'a']]);
+
+        expect(() => result.current[1].add(1, 'b')).toThrow(
+            DuplicateEntityError,
+        );
+    });
+
+    it('prefixes diagnostic paths with the entity ID', async () => {
+        const result = renderCollection([
+            [1, 'a'],
+            [2, 'b'],
+        ]);
+        await act(async () => {
+            result.current[1].update(2, '');
+        });
+
+        expect(
+            EntityCollection.diagnostics(result.current[0]).map(d => [
+                d.type,
+                d.path,
+            ]),
+        ).toEqual([[DiagnosticType.Required, ObjectPath.create(2)]]);
+    });
+});
@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import { Entity } from './entity';
+import { EntityAction } from './entityAction';
+import { EntityCollection } from './entityCollection';
+import { isNonVoid } from './util';
+import { Diagnostic, Validator } from './validation';
+
+const noValidations: Validator<unknown> = () => [];
+
+/**
+ * Optional behaviors for `useEntityCollection`.
+ */
+export interface EntityCollectionOptions<T> {
+    /**
+     * Extract field errors from the rejection of a save. See
+     * `EntityOptions#saveErrorDiagnostics`.
+     */
+    saveErrorDiagnostics?(error: unknown, value: T): Diagnostic[];
+}
+
+/**
+ * Sends one entity of a collection to the server. If this returns a value,
+ * that will be used as the entity's new `saved` value.
+ */
+export type ItemSaveTask<K, T> = (
+    value: T,
+    id: K,
+) => Promise<T | undefined | void>;
+
+export interface SaveAllResult<K> {
+    /** The IDs of the entities which were saved. */
+    saved: K[];
+    /** The entities which could not be saved, with the error for each. */
+    failed: { id: K; error: unknown }[];
+}
+
+export class MissingEntityError extends Error {
+    constructor(id: string | number) {
+        super(`No entity with ID "${id}" in the collection`);
+    }
+}
+
+export class DuplicateEntityError extends Error {
+    constructor(id: string | number) {
+        super(`An entity with ID "${id}" is already in the collection`);
+    }
+}
+
+interface EntityCollectionUpdater<K, T> {
+    /**
+     * Update the draft value of one entity and recompute its diagnostics.
+     * Updates for IDs which are not in the collection are ignored, as they
+     * may arrive after the row was removed.
+     */
+    update(id: K, value: T): void;
+    /**
+     * Update the saved value of one entity. See `EntityUpdater#updateSaved`.
+     */
+    updateSaved(id: K, value: T): void;
+    /**
+     * Add a new, unsaved entity to the end of the collection.
+     *
+     * @param id A temporary ID for the entity, which is kept after saving
+     * @param value The initial value of the entity
+     *
+     * @throws DuplicateEntityError if the ID is already in use
+     */
+    add(id: K, value: T): void;
+    /**
+     * Revert one entity to its saved value. See
+     * `EntityUpdater#discardChanges`.
+     */
+    discardChanges(id: K): void;
+    /**
+     * Save one entity, as `EntityUpdater#save` does.
+     *
+     * @returns A promise that completes when the save and associated state
+     * changes are complete, rejecting with the error from `saveTask`.
+     */
+    save(id: K, saveTask: ItemSaveTask<K, T>): Promise<void>;
+    /**
+     * Save every entity which is new or has unsaved changes, in parallel.
+     *
+     * @returns A promise which resolves once every save has settled. It does
+     * not reject; failures are listed in the result, and each failed entity
+     * keeps its draft.
+     */
+    saveAll(saveTask: ItemSaveTask<K, T>): Promise<SaveAllResult<K>>;
+    /**
+     * Remove one entity from the collection. New entities are removed at
+     * once, as they don't exist on the server. For saved entities, the entity
+     * has `isDeleting` set while `deletePromise` is pending, and is removed
+     * once it resolves.
+     *
+     * @param deletePromise The async operation deleting the entity on the
+     * backend. If omitted, the entity is removed at once.
+     *
+     * @returns A promise that completes when the entity has been removed. If
+     * the delete promise rejects, the entity is kept and the rejection will
+     * contain the error from `deletePromise`.
+     */
+    delete(id: K, deletePromise?: Promise<unknown>): Promise<void>;
+}
+
+/**
+ * Create a collection of independently saved entities with an updater. This
+ * is commonly used for table editors where each row is its own server
+ * resource.
+ *
+ * @param initialItems The IDs and saved values of the initial entities, such
+ * as a `Map` or an array of `[id, value]` pairs
+ * @param validator The validation function to apply to each entity. Changing
+ * this function will cause every entity to be revalidated - be sure to
+ * memoize if it's declared within the component.
+ * @param options Additional behaviors, such as save error handling.
+ *
+ * @returns An `EntityCollection<K, T>` with the latest entities, and an
+ * object with functions to update them.
+ */
+export const useEntityCollection = <K extends string | number, T>(
+    initialItems: Iterable<[K, T]>,
+    validator: Validator<T> = noValidations,
+    options: EntityCollectionOptions<T> = {},
+): [EntityCollection<K, T>, EntityCollectionUpdater<K, T>] => {
+    const [inner, setInner] = useState<EntityCollection<K, T>>(
+        () =>
+            new Map(
+                Array.from(initialItems, ([id, value]): [K, Entity<T>] => [
+                    id,
+                    Entity.reduce(
+                        Entity.createSaved(value),
+                        EntityAction.revalidate(),
+                        validator,
+                    ),
+                ]),
+            ),
+    );
+
+    /**
+     * If `true`, the parent component has been unmounted and no `setState`
+     * calls should be made. See `useEntity`.
+     */
+    const isUnmounted = useRef(false);
+    useEffect(
+        () => () => {
+            isUnmounted.current = true;
+        },
+        [],
+    );
+
+    const liveCollection = useRef(inner);
+    liveCollection.current = inner;
+
+    const liveOptions = useRef(options);
+    liveOptions.current = options;
+
+    const liveValidator = useRef(validator);
+
+    /**
+     * Store a new collection, updating the live reference immediately so that
+     * several changes in the same tick each see the previous one's result.
+     */
+    const commit = (next: EntityCollection<K, T>) => {
+        liveCollection.current = next;
+        setInner(next);
+    };
+
+    /**
+     * Apply an action to one entity. Actions for IDs which are not in the
+     * collection are ignored.
+     */
+    const dispatch = (id: K, action: EntityAction<T>) => {
+        const collection = liveCollection.current;
+        const entity = collection.get(id);
+        if (!entity) return;
+
+        const next = Entity.reduce(entity, action, liveValidator.current);
+        if (next === entity) return;
+        commit(new Map(collection).set(id, next));
+    };
+
+    // See `useEntity` for why validator changes revalidate during render.
+    if (validator !== liveValidator.current) {
+        liveValidator.current = validator;
+        commit(
+            new Map(
+                Array.from(inner, ([id, entity]): [K, Entity<T>] => [
+                    id,
+                    Entity.reduce(entity, EntityAction.revalidate(), validator),
+                ]),
+            ),
+        );
+    }
+
+    const updateMethods = useMemo<EntityCollectionUpdater<K, T>>(() => {
+        const save = async (id: K, saveTask: ItemSaveTask<K, T>) => {
+            const entity = liveCollection.current.get(id);
+            if (!entity) throw new MissingEntityError(id);
+
+            const valueAtSaveTime = Entity.latestValue(entity);
+            dispatch(id, EntityAction.saveStarted());
+
+            try {
+                const fromPromise = await saveTask(valueAtSaveTime, id);
+
+                // If we were unmounted while the promise was pending,
+                // we should do nothing.
+                if (isUnmounted.current) return;
+                dispatch(
+                    id,
+                    EntityAction.saveSucceeded(
+                        isNonVoid(fromPromise) ? fromPromise : valueAtSaveTime,
+                    ),
+                );
+            } catch (e) {
+                if (!isUnmounted.current) {
+                    const { saveErrorDiagnostics } = liveOptions.current;
+                    dispatch(
+                        id,
+                        EntityAction.saveFailed(
+                            saveErrorDiagnostics &&
+                                saveErrorDiagnostics(e, valueAtSaveTime),
+                        ),
+                    );
+                }
+
+                throw e;
+            }
+        };
+
+        const remove = (id: K) => {
+            const next = new Map(liveCollection.current);
+            next.delete(id);
+            commit(next);
+        };
+
+        return {
+            update(id, value) {
+                dispatch(id, EntityAction.update(value));
+            },
+            updateSaved(id, value) {
+                dispatch(id, EntityAction.updateSaved(value));
+            },
+            add(id, value) {
+                const collection = liveCollection.current;
+                if (collection.has(id)) throw new DuplicateEntityError(id);
+
+                commit(
+                    new Map(collection).set(
+                        id,
+                        Entity.reduce(
+                            Entity.createUnsaved(value),
+                            EntityAction.revalidate(),
+                            liveValidator.current,
+                        ),
+                    ),
+                );
+            },
+            discardChanges(id) {
+                dispatch(id, EntityAction.discardChanges());
+            },
+            save,
+            async saveAll(saveTask) {
+                const ids = Array.from(liveCollection.current)
+                    .filter(([, entity]) => Entity.hasUnsavedChanges(entity))
+                    .map(([id]) => id);
+
+                const result: SaveAllResult<K> = { saved: [], failed: [] };
+                await Promise.all(
+                    ids.map(id =>
+                        save(id, saveTask).then(
+                            () => {
+                                result.saved.push(id);
+                            },
+                            error => {
+                                result.failed.push({ id, error });
+                            },
+                        ),
+                    ),
+                );
+
+                return result;
+            },
+            async delete(id, deletePromise) {
+                const entity = liveCollection.current.get(id);
+                if (!entity) throw new MissingEntityError(id);
+
+                if (Entity.isNew(entity) || !deletePromise) {
+                    remove(id);
+                    return;
+                }
+
+                dispatch(id, EntityAction.deleteStarted());
+                try {
+                    await deletePromise;
+                } catch (e) {
+                    if (!isUnmounted.current) {
+                        dispatch(id, EntityAction.deleteFinished());
+                    }
+
+                    throw e;
+                }
+
+                if (!isUnmounted.current) remove(id);
+            },
+        };
+    }, []);
+
+    return [inner, updateMethods];
+};
@@ -0,0 +1,100 @@
+import { Diagnostic } from './diagnostic';
+
+/**
+ * The subset of the DOM `AbortSignal` that async validators can rely on.
+ * Where the environment provides `AbortController`, validators receive a real
+ * `AbortSignal`, which can be passed straight to `fetch`. Elsewhere they
+ * receive a minimal stand-in which only has these members.
+ */
+export interface AbortSignalLike {
+    /** `true` once the validation run has been superseded or cancelled. */
+    readonly aborted: boolean;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * A function that evaluates a value asynchronously, for checks which need
+ * information from the server such as "is this name already in use?".
+ *
+ * The validator receives a signal which is aborted when the result is no
+ * longer wanted, typically because the user changed the value again. Results
+ * from aborted runs are discarded, so validators need not check the signal
+ * themselves unless they can stop expensive work early.
+ *
+ * @public
+ */
+export type AsyncValidator<T> = (
+    value: T,
+    signal: AbortSignalLike,
+) => Promise<Diagnostic[]>;
+
+/**
+ * Handle for cancelling one run of an async validator.
+ *
+ * @internal
+ */
+export interface ValidationController {
+    signal: AbortSignalLike;
+    /**
+     * Mark the signal as aborted and notify listeners. Subsequent calls have
+     * no effect.
+     */
+    abort(): void;
+}
+
+/**
+ * The DOM `AbortController`, declared here as this package doesn't depend on
+ * the DOM typings. It's `undefined` in environments which don't provide it.
+ */
+declare const AbortController: (new () => ValidationController) | undefined;
+
+/**
+ * Create a real `AbortController` if the environment has one, or a minimal
+ * stand-in for it otherwise.
+ *
+ * @internal
+ */
+export const createValidationController = (): ValidationController => {
+    if (typeof AbortController !== 'undefined') return new AbortController();
+
+    let aborted = false;
+    const listeners: (() => void)[] = [];
+
+    return {
+        signal: {
+            get aborted() {
+                return aborted;
+            },
+            addEventListener: (_type, listener) => {
+                listeners.push(listener);
+            },
+            removeEventListener: (_type, listener) => {
+                const index = listeners.indexOf(listener);
+                if (index !== -1) listeners.splice(index, 1);
+            },
+        },
+        abort() {
+            if (aborted) return;
+            aborted = true;
+            listeners.splice(0).forEach(listener => listener());
+        },
+    };
+};
+
+export const AsyncValidator = {
+    /**
+     * Create a new async validator which runs all the provided validators
+     * concurrently and returns the combined results.
+     *
+     * @param validators A set of independently-run validators
+     */
+    combine: <T>(
+        ...validators: readonly AsyncValidator<T>[]
+    ): AsyncValidator<T> => async (value, signal) => {
+        const results = await Promise.all(
+            validators.map(fn => fn(value, signal)),
+        );
+        return ([] as Diagnostic[]).concat(...results);
+    },
+};
@@ -1,11 +1,29 @@
 import sortBy from 'lodash-es/sortBy';
 
+import {
+    MessageFormatter,
+    MessageParams,
+    plainMessageFormatter,
+} from './messages';
 import { ObjectPath } from './objectPath';
 import { Severity } from './severity';
 
 export interface DiagnosticData {
-    /** The human-facing message for a validation error or warning. */
+    /**
+     * The human-facing message for a validation error or warning. When
+     * `messageId` is set, this is the fallback for locales whose catalogs
+     * do not contain the message.
+     */
     message: string;
+    /**
+     * The key of this message in a `MessageCatalog`, allowing the message to
+     * be rendered in the user's locale by a `MessageFormatter`.
+     */
+    messageId?: string;
+    /**
+     * Values to substitute into the catalog message named by `messageId`.
+     */
+    params?: MessageParams;
     /**
      * The kind of the validation, such as `required` or `maxLength`.
      * A single field may only have one validation per type at a time.
@@ -41,15 +59,88 @@ export const Diagnostic = {
      */
     isFor: ({ path }: Diagnostic, pathPrefix: ObjectPath): boolean =>
         ObjectPath.startsWith(path, pathPrefix),
-    flattenMessages: (diagnostic: DiagnosticData): string[] => {
-        if (!diagnostic.next) return [diagnostic.message];
+    /**
+     * Render the message of a diagnostic and each diagnostic in its `next`
+     * chain, outermost first.
+     *
+     * @param diagnostic The diagnostic to render
+     * @param formatter The formatter to render messages with, usually from
+     * `useMessageFormatter`. By default, each `message` is used unchanged.
+     */
+    flattenMessages: (
+        diagnostic: DiagnosticData,
+        formatter: MessageFormatter = plainMessageFormatter,
+    ): string[] => {
+        const message = formatter.format(diagnostic);
+        if (!diagnostic.next) return [message];
         return [
-            diagnostic.message,
-            ...Diagnostic.flattenMessages(diagnostic.next),
+            message,
+            ...Diagnostic.flattenMessages(diagnostic.next, formatter),
         ];
     },
+    /**
+     * Compare two lists of diagnostics, such as the results of successive
+     * validation runs, to find which diagnostics appeared, disappeared, or
+     * changed. Diagnostics are matched using `DiagnosticKey.of`.
+     *
+     * @param prev The older list of diagnostics
+     * @param next The newer list of diagnostics
+     */
+    diff: (
+        prev: readonly Diagnostic[],
+        next: readonly Diagnostic[],
+    ): DiagnosticDiff => {
+        const previousByKey = new Map(
+            prev.map(
+                d => [DiagnosticKey.of(d), d] as [DiagnosticKey, Diagnostic],
+            ),
+        );
+        const result: DiagnosticDiff = {
+            added: [],
+            removed: [],
+            changed: [],
+            unchanged: [],
+        };
+
+        next.forEach(d => {
+            const key = DiagnosticKey.of(d);
+            const previous = previousByKey.get(key);
+            previousByKey.delete(key);
+
+            if (!previous) {
+                result.added.push(d);
+            } else if (
+                previous.message !== d.message ||
+                previous.severity !== d.severity
+            ) {
+                result.changed.push({ previous, next: d });
+            } else {
+                result.unchanged.push(d);
+            }
+        });
+
+        previousByKey.forEach(d => result.removed.push(d));
+        return result;
+    },
 };
 
+/**
+ * The result of comparing two lists of diagnostics by `DiagnosticKey`.
+ */
+export interface DiagnosticDiff {
+    /** Diagnostics whose key is only in the newer list. */
+    added: Diagnostic[];
+    /** Diagnostics whose key is only in the older list. */
+    removed: Diagnostic[];
+    /**
+     * Diagnostics whose key is in both lists, but whose message or severity
+     * differs.
+     */
+    changed: { previous: Diagnostic; next: Diagnostic }[];
+    /** Diagnostics from the newer list which are the same in both lists. */
+    unchanged: Diagnostic[];
+}
+
 export type DiagnosticKey = string;
 
 export const DiagnosticKey = {
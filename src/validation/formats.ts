@@ -0,0 +1,70 @@
+/**
+ * Predicates for string formats, shared by `validators` and
+ * `compileJsonSchema`. They don't treat blank strings specially; callers
+ * decide whether empty values are allowed.
+ *
+ * @internal
+ */
+
+const IPV4_OCTET = '(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const IPV4 = new RegExp(`^${IPV4_OCTET}(\\.${IPV4_OCTET}){3}$`);
+const IPV6_GROUP = /^[0-9a-f]{1,4}$/i;
+const HOSTNAME_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+export const isIpv4 = (value: string): boolean => IPV4.test(value);
+
+export const isIpv6 = (value: string): boolean => {
+    const halves = value.split('::');
+    if (halves.length > 2) return false;
+
+    const groups = halves
+        .filter(half => half !== '')
+        .map(half => half.split(':'))
+        .reduce((all, some) => all.concat(some), []);
+
+    // An embedded IPv4 address takes the place of the last two groups.
+    let groupCount = groups.length;
+    const last = groups[groups.length - 1];
+    if (last !== undefined && last.indexOf('.') !== -1) {
+        if (!isIpv4(last)) return false;
+        groups.pop();
+        groupCount += 1;
+    }
+
+    if (!groups.every(group => IPV6_GROUP.test(group))) return false;
+
+    return halves.length === 2 ? groupCount < 8 : groupCount === 8;
+};
+
+export const isHostname = (value: string): boolean => {
+    const name = value.endsWith('.') ? value.slice(0, -1) : value;
+    return (
+        name.length > 0 &&
+        name.length <= 253 &&
+        name.split('.').every(label => HOSTNAME_LABEL.test(label))
+    );
+};
+
+export const isIpAddress = (value: string, version?: 4 | 6): boolean =>
+    (version !== 6 && isIpv4(value)) || (version !== 4 && isIpv6(value));
+
+export const isCidr = (value: string, version?: 4 | 6): boolean => {
+    const [address, prefixLength, ...rest] = value.split('/');
+    if (rest.length || !prefixLength || !/^\d{1,3}$/.test(prefixLength)) {
+        return false;
+    }
+
+    const bits = Number(prefixLength);
+    if (version !== 6 && isIpv4(address)) return bits <= 32;
+    if (version !== 4 && isIpv6(address)) return bits <= 128;
+    return false;
+};
+
+/**
+ * Check for a local part, an `@` and a valid hostname.
+ */
+export const isEmail = (value: string): boolean => {
+    const at = value.lastIndexOf('@');
+    const local = value.slice(0, at);
+    return at > 0 && !/[\s@]/.test(local) && isHostname(value.slice(at + 1));
+};
@@ -1,5 +1,10 @@
+export * from './asyncValidator';
 export * from './diagnostic';
+export * from './jsonSchema';
+export * from './messages';
 export * from './objectPath';
+export * from './serverDiagnostics';
 export * from './severity';
 export * from './showsDiagnostics';
 export * from './validator';
+export * from './validators';
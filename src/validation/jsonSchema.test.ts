@@ -0,0 +1,64 @@
+import { compileJsonSchema, UnsupportedSchemaError } from './jsonSchema';
+import { ObjectPath } from './objectPath';
+
+describe('compileJsonSchema', () => {
+    describe('format', () => {
+        const validate = compileJsonSchema<string>({ format: 'ipv4' });
+
+        it('rejects empty strings', () => {
+            expect(validate('')).toHaveLength(1);
+        });
+
+        it('reports a format-specific message ID', () => {
+            expect(validate('10.0.0')).toEqual([
+                expect.objectContaining({
+                    type: 'format',
+                    message: 'Must be a valid IPv4 address',
+                    messageId: 'format.ipv4',
+                    params: { format: 'ipv4', value: '10.0.0' },
+                }),
+            ]);
+        });
+
+        it('accepts valid values', () => {
+            expect(validate('10.0.0.1')).toEqual([]);
+        });
+    });
+
+    describe('pattern', () => {
+        it('matches strings against the pattern', () => {
+            const validate = compileJsonSchema<string>({ pattern: '^[a-z]+$' });
+
+            expect(validate('abc')).toEqual([]);
+            expect(validate('ABC')).toHaveLength(1);
+        });
+
+        it('rejects patterns which are not valid regular expressions', () => {
+            expect(() => compileJsonSchema({ pattern: '([a-z]' })).toThrow(
+                UnsupportedSchemaError,
+            );
+        });
+    });
+
+    describe('$ref', () => {
+        it('resolves references within the document', () => {
+            const validate = compileJsonSchema<unknown>({
+                definitions: { port: { type: 'integer', minimum: 1 } },
+                properties: { port: { $ref: '#/definitions/port' } },
+            });
+
+            expect(validate({ port: 0 })).toEqual([
+                expect.objectContaining({
+                    type: 'minimum',
+                    path: ObjectPath.create('port'),
+                }),
+            ]);
+        });
+
+        it('rejects references which do not resolve', () => {
+            expect(() =>
+                compileJsonSchema({ $ref: '#/definitions/missing' }),
+            ).toThrow(UnsupportedSchemaError);
+        });
+    });
+});
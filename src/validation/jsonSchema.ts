@@ -0,0 +1,493 @@
+import flatMap from 'lodash-es/flatMap';
+import isEqual from 'lodash-es/isEqual';
+
+import { Diagnostic } from './diagnostic';
+import { isEmail, isHostname, isIpv4, isIpv6 } from './formats';
+import { ObjectPath } from './objectPath';
+import { Severity } from './severity';
+import { validateProperty, Validator } from './validator';
+
+export type JsonSchemaType =
+    | 'array'
+    | 'boolean'
+    | 'integer'
+    | 'null'
+    | 'number'
+    | 'object'
+    | 'string';
+
+/**
+ * The subset of draft-07 JSON Schema understood by `compileJsonSchema`.
+ * Annotation keywords such as `title` and `description` are accepted and
+ * ignored.
+ */
+export interface JsonSchema {
+    $ref?: string;
+    type?: JsonSchemaType | JsonSchemaType[];
+    enum?: unknown[];
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: 'email' | 'hostname' | 'ipv4' | 'ipv6';
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    oneOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    definitions?: Record<string, JsonSchema>;
+    $schema?: string;
+    $id?: string;
+    $comment?: string;
+    title?: string;
+    description?: string;
+    default?: unknown;
+    examples?: unknown[];
+}
+
+/**
+ * A keyword that `compileJsonSchema` cannot enforce, and where it was found.
+ */
+export interface UnsupportedKeyword {
+    keyword: string;
+    /**
+     * JSON Pointer fragment to the schema containing the keyword, such as
+     * `#/properties/criteria/items`.
+     */
+    schemaPath: string;
+}
+
+/**
+ * Error thrown when a schema uses keywords, formats, patterns or references
+ * that `compileJsonSchema` does not support. Rather than silently accepting values
+ * the schema would reject, compilation fails and lists every problem.
+ */
+export class UnsupportedSchemaError extends Error {
+    constructor(public readonly unsupported: UnsupportedKeyword[]) {
+        super(
+            `Unsupported JSON Schema features: ${unsupported
+                .map(u => `${u.keyword} at ${u.schemaPath}`)
+                .join(', ')}`,
+        );
+    }
+}
+
+const ANNOTATIONS = [
+    'definitions',
+    '$schema',
+    '$id',
+    '$comment',
+    'title',
+    'description',
+    'default',
+    'examples',
+];
+
+const FORMATS: Record<string, [(value: string) => boolean, string]> = {
+    email: [isEmail, 'Must be a valid email address'],
+    hostname: [isHostname, 'Must be a valid hostname'],
+    ipv4: [isIpv4, 'Must be a valid IPv4 address'],
+    ipv6: [isIpv6, 'Must be a valid IPv6 address'],
+};
+
+const jsonTypeOf = (value: unknown): JsonSchemaType | 'undefined' => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    if (
+        typeof value === 'string' ||
+        typeof value === 'boolean' ||
+        typeof value === 'object'
+    ) {
+        return typeof value as JsonSchemaType;
+    }
+    return 'undefined';
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+const isType = (value: unknown, type: JsonSchemaType): boolean => {
+    const actual = jsonTypeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+};
+
+/**
+ * Create a root-level error whose `type` is the schema keyword that failed.
+ */
+const fail = (keyword: string, message: string): Diagnostic => ({
+    type: keyword,
+    message,
+    severity: Severity.Error,
+    path: ObjectPath.EMPTY,
+});
+
+const unescapePointer = (segment: string): string =>
+    decodeURIComponent(segment)
+        .replace(/~1/g, '/')
+        .replace(/~0/g, '~');
+
+const escapePointer = (segment: string | number): string =>
+    String(segment)
+        .replace(/~/g, '~0')
+        .replace(/\//g, '~1');
+
+/**
+ * Walks a schema document, building validators and recording anything that
+ * cannot be enforced.
+ */
+const createCompiler = (root: JsonSchema) => {
+    const unsupported: UnsupportedKeyword[] = [];
+    const refs: Record<string, Validator<unknown>> = {};
+
+    const resolve = (ref: string, schemaPath: string): JsonSchema | null => {
+        if (!ref.startsWith('#')) {
+            unsupported.push({ keyword: `$ref ${ref}`, schemaPath });
+            return null;
+        }
+
+        let target: unknown = root;
+        for (const segment of ref
+            .slice(1)
+            .split('/')
+            .slice(1)) {
+            const key = unescapePointer(segment);
+            if (!isObject(target) || !(key in target)) {
+                unsupported.push({ keyword: `$ref ${ref}`, schemaPath });
+                return null;
+            }
+            target = target[key];
+        }
+
+        return target as JsonSchema;
+    };
+
+    const compile = (
+        schema: JsonSchema,
+        schemaPath: string,
+    ): Validator<unknown> => {
+        const checks: Validator<unknown>[] = [];
+        const at = (...segments: (string | number)[]) =>
+            [schemaPath, ...segments.map(escapePointer)].join('/');
+
+        // Type-specific keywords only apply to values of that type, so they
+        // are grouped and run after confirming the type of the value.
+        const stringChecks: Validator<string>[] = [];
+        const numberChecks: Validator<number>[] = [];
+        const arrayChecks: Validator<unknown[]>[] = [];
+        const objectChecks: Validator<Record<string, unknown>>[] = [];
+
+        Object.keys(schema).forEach(keyword => {
+            switch (keyword) {
+                case '$ref': {
+                    const ref = schema.$ref as string;
+                    const target = resolve(ref, schemaPath);
+                    if (!target) break;
+
+                    // References are compiled once and looked up lazily so
+                    // that recursive schemas terminate.
+                    if (!refs.hasOwnProperty(ref)) {
+                        refs[ref] = () => [];
+                        refs[ref] = compile(target, ref);
+                    }
+                    checks.push(value => refs[ref](value));
+                    break;
+                }
+                case 'type': {
+                    const types = ([] as JsonSchemaType[]).concat(
+                        schema.type as JsonSchemaType | JsonSchemaType[],
+                    );
+                    checks.push(value =>
+                        types.some(type => isType(value, type))
+                            ? []
+                            : [fail('type', `Must be ${types.join(' or ')}`)],
+                    );
+                    break;
+                }
+                case 'enum': {
+                    const allowed = schema.enum as unknown[];
+                    checks.push(value =>
+                        allowed.some(option => isEqual(option, value))
+                            ? []
+                            : [
+                                  fail(
+                                      'enum',
+                                      `Must be one of ${allowed
+                                          .map(option => JSON.stringify(option))
+                                          .join(', ')}`,
+                                  ),
+                              ],
+                    );
+                    break;
+                }
+                case 'required': {
+                    const required = schema.required as string[];
+                    objectChecks.push(value =>
+                        required
+                            .filter(key => value[key] === undefined)
+                            .map(key => ({
+                                ...fail('required', 'This field is required'),
+                                path: ObjectPath.create(key),
+                            })),
+                    );
+                    break;
+                }
+                case 'properties': {
+                    const properties = schema.properties as Record<
+                        string,
+                        JsonSchema
+                    >;
+                    const propertyValidators = Object.keys(properties).map(
+                        key =>
+                            [
+                                key,
+                                compile(properties[key], at(keyword, key)),
+                            ] as [string, Validator<unknown>],
+                    );
+                    objectChecks.push(value =>
+                        flatMap(propertyValidators, ([key, validator]) =>
+                            value[key] === undefined
+                                ? []
+                                : validateProperty(key, validator, value[key]),
+                        ),
+                    );
+                    break;
+                }
+                case 'items': {
+                    const items = schema.items as JsonSchema;
+                    if (Array.isArray(items)) {
+                        unsupported.push({
+                            keyword: 'items (tuple form)',
+                            schemaPath,
+                        });
+                        break;
+                    }
+                    arrayChecks.push(
+                        Validator.forList(compile(items, at(keyword))),
+                    );
+                    break;
+                }
+                case 'minItems':
+                case 'minLength': {
+                    const min = schema[keyword] as number;
+                    const noun =
+                        keyword === 'minItems' ? 'items' : 'characters';
+                    const check = (value: string | unknown[]) =>
+                        value.length < min
+                            ? [
+                                  fail(
+                                      keyword,
+                                      `Must have at least ${min} ${noun}`,
+                                  ),
+                              ]
+                            : [];
+                    if (keyword === 'minItems') arrayChecks.push(check);
+                    else stringChecks.push(check);
+                    break;
+                }
+                case 'maxItems':
+                case 'maxLength': {
+                    const max = schema[keyword] as number;
+                    const noun =
+                        keyword === 'maxItems' ? 'items' : 'characters';
+                    const check = (value: string | unknown[]) =>
+                        value.length > max
+                            ? [
+                                  fail(
+                                      keyword,
+                                      `Must have at most ${max} ${noun}`,
+                                  ),
+                              ]
+                            : [];
+                    if (keyword === 'maxItems') arrayChecks.push(check);
+                    else stringChecks.push(check);
+                    break;
+                }
+                case 'pattern': {
+                    const source = schema.pattern as string;
+                    let regex: RegExp;
+                    try {
+                        regex = new RegExp(source, 'u');
+                    } catch (e) {
+                        unsupported.push({
+                            keyword: `pattern ${source}`,
+                            schemaPath,
+                        });
+                        break;
+                    }
+                    stringChecks.push(value =>
+                        regex.test(value)
+                            ? []
+                            : [
+                                  fail(
+                                      keyword,
+                                      `Must match the pattern ${source}`,
+                                  ),
+                              ],
+                    );
+                    break;
+                }
+                case 'format': {
+                    const format = schema.format as string;
+                    if (!FORMATS.hasOwnProperty(format)) {
+                        unsupported.push({
+                            keyword: `format ${format}`,
+                            schemaPath,
+                        });
+                        break;
+                    }
+                    const [isValid, message] = FORMATS[format];
+                    stringChecks.push(value =>
+                        isValid(value)
+                            ? []
+                            : [
+                                  {
+                                      ...fail(keyword, message),
+                                      messageId: `format.${format}`,
+                                      params: { format, value },
+                                  },
+                              ],
+                    );
+                    break;
+                }
+                case 'minimum':
+                case 'maximum':
+                case 'exclusiveMinimum':
+                case 'exclusiveMaximum': {
+                    const limit = schema[keyword] as number;
+                    const [isValid, message] = {
+                        minimum: [
+                            (v: number) => v >= limit,
+                            `Must be at least ${limit}`,
+                        ],
+                        maximum: [
+                            (v: number) => v <= limit,
+                            `Must be at most ${limit}`,
+                        ],
+                        exclusiveMinimum: [
+                            (v: number) => v > limit,
+                            `Must be greater than ${limit}`,
+                        ],
+                        exclusiveMaximum: [
+                            (v: number) => v < limit,
+                            `Must be less than ${limit}`,
+                        ],
+                    }[keyword] as [(v: number) => boolean, string];
+                    numberChecks.push(value =>
+                        isValid(value) ? [] : [fail(keyword, message)],
+                    );
+                    break;
+                }
+                case 'oneOf':
+                case 'anyOf': {
+                    const subschemas = schema[keyword] as JsonSchema[];
+                    const branches = subschemas.map((branch, i) =>
+                        compile(branch, at(keyword, i)),
+                    );
+                    checks.push(value => {
+                        const matches = branches.filter(
+                            branch =>
+                                !branch(value).some(
+                                    d => d.severity === Severity.Error,
+                                ),
+                        ).length;
+                        if (keyword === 'anyOf') {
+                            return matches
+                                ? []
+                                : [
+                                      fail(
+                                          keyword,
+                                          'Must match at least one of the allowed forms',
+                                      ),
+                                  ];
+                        }
+
+                        return matches === 1
+                            ? []
+                            : [
+                                  fail(
+                                      keyword,
+                                      matches
+                                          ? 'Must match only one of the allowed forms'
+                                          : 'Must match one of the allowed forms',
+                                  ),
+                              ];
+                    });
+                    break;
+                }
+                default:
+                    if (ANNOTATIONS.indexOf(keyword) === -1) {
+                        unsupported.push({ keyword, schemaPath });
+                    }
+            }
+        });
+
+        if (schema.definitions) {
+            const { definitions } = schema;
+            Object.keys(definitions).forEach(name => {
+                const ref = at('definitions', name);
+                if (!refs.hasOwnProperty(ref)) {
+                    refs[ref] = () => [];
+                    refs[ref] = compile(definitions[name], ref);
+                }
+            });
+        }
+
+        return value => [
+            ...flatMap(checks, check => check(value)),
+            ...(isType(value, 'string')
+                ? flatMap(stringChecks, check => check(value as string))
+                : []),
+            ...(isType(value, 'number')
+                ? flatMap(numberChecks, check => check(value as number))
+                : []),
+            ...(isType(value, 'array')
+                ? flatMap(arrayChecks, check => check(value as unknown[]))
+                : []),
+            ...(isType(value, 'object')
+                ? flatMap(objectChecks, check =>
+                      check(value as Record<string, unknown>),
+                  )
+                : []),
+        ];
+    };
+
+    return { compile, unsupported };
+};
+
+/**
+ * Convert a JSON Schema document into a `Validator`. Diagnostics are located
+ * with `ObjectPath`s relative to the validated value, and their `type` is the
+ * schema keyword which failed, such as `required` or `maxLength`. `format`
+ * diagnostics also have a `messageId` such as `format.ipv4`, with the format
+ * and value as params, so catalogs can translate each format separately.
+ *
+ * Only a subset of draft-07 is supported: `type`, `required`, `properties`,
+ * `items`, `enum`, `minimum`/`maximum` and their exclusive forms,
+ * `minLength`/`maxLength`, `minItems`/`maxItems`, `pattern`, `format`
+ * (`email`, `hostname`, `ipv4` and `ipv6`), `oneOf`, `anyOf`, and `$ref`
+ * pointing within the document.
+ *
+ * @param schema The root schema document
+ *
+ * @throws UnsupportedSchemaError if the schema uses anything else, or has a
+ * `pattern` which isn't a valid regular expression, so that rules are never
+ * silently skipped.
+ */
+export const compileJsonSchema = <T>(schema: JsonSchema): Validator<T> => {
+    const { compile, unsupported } = createCompiler(schema);
+    const validator = compile(schema, '#');
+
+    if (unsupported.length) {
+        throw new UnsupportedSchemaError(unsupported);
+    }
+
+    return validator;
+};
@@ -0,0 +1,186 @@
+import { createContext, useContext } from 'react';
+
+import { DiagnosticData } from './diagnostic';
+
+/**
+ * Values which can be substituted into a message template.
+ */
+export type MessageParams = Record<
+    string,
+    string | number | boolean | readonly (string | number | boolean)[]
+>;
+
+/**
+ * A diagnostic message, either as a string with `{name}` placeholders for
+ * the validator's parameters or as a function of those parameters.
+ */
+export type MessageTemplate<P extends MessageParams = MessageParams> =
+    | string
+    | ((params: P) => string);
+
+/**
+ * A catalog message whose wording depends on a number, such as
+ * "1 item" versus "2 items". Forms are chosen using the CLDR plural
+ * categories of the catalog's locale, and `zero` is preferred for exactly 0
+ * when present.
+ */
+export interface PluralMessage {
+    /** The name of the numeric parameter that selects the form. */
+    count: string;
+    zero?: string;
+    one?: string;
+    two?: string;
+    few?: string;
+    many?: string;
+    other: string;
+}
+
+/**
+ * Message templates for one locale, keyed by `DiagnosticData#messageId`.
+ */
+export type MessageCatalog = Record<string, string | PluralMessage>;
+
+/**
+ * Renders diagnostic messages for display.
+ */
+export interface MessageFormatter {
+    /** The locale that messages are preferably rendered in. */
+    readonly locale: string;
+    /**
+     * Render the message for a single diagnostic, ignoring `next`.
+     */
+    format(diagnostic: DiagnosticData): string;
+}
+
+export interface MessageFormatterOptions {
+    /** The locale the user has selected, such as `fr-CA`. */
+    locale: string;
+    /**
+     * The locale to use when a message is missing from the selected locale's
+     * catalogs.
+     */
+    fallbackLocale?: string;
+    /** Catalogs keyed by locale. */
+    catalogs: Record<string, MessageCatalog>;
+}
+
+/**
+ * Substitute `{name}` placeholders in a template with the matching parameter.
+ * Lists are joined with commas, and unknown placeholders are left as-is.
+ *
+ * @param template The message or message function
+ * @param params The values available to the template
+ */
+export const formatMessage = <P extends MessageParams>(
+    template: MessageTemplate<P>,
+    params: P,
+): string => {
+    if (typeof template === 'function') return template(params);
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        if (!params.hasOwnProperty(name)) return placeholder;
+        const param = params[name];
+        return Array.isArray(param) ? param.join(', ') : String(param);
+    });
+};
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// `Intl.PluralRules` is not part of the ES2017 library typings, but is
+// available in every supported browser.
+type PluralRulesConstructor = new (locale: string) => {
+    select(n: number): PluralCategory;
+};
+
+const selectPluralForm = (
+    message: PluralMessage,
+    locale: string,
+    params: MessageParams,
+): string => {
+    const count = Number(params[message.count]);
+    if (count === 0 && message.zero !== undefined) return message.zero;
+
+    const { PluralRules } = (Intl as unknown) as {
+        PluralRules?: PluralRulesConstructor;
+    };
+    const category: PluralCategory = PluralRules
+        ? new PluralRules(locale).select(count)
+        : count === 1
+        ? 'one'
+        : 'other';
+
+    const form = message[category];
+    return form === undefined ? message.other : form;
+};
+
+/**
+ * List the locales to search for a message, from most to least specific.
+ * For example, `fr-CA` falling back to `en-US` searches `fr-CA`, `fr`,
+ * `en-US` and then `en`.
+ */
+const localeChain = (locale: string, fallbackLocale?: string): string[] =>
+    [locale, fallbackLocale]
+        .filter((l): l is string => Boolean(l))
+        .reduce<string[]>((chain, l) => [...chain, l, l.split('-')[0]], [])
+        .filter((l, i, all) => all.indexOf(l) === i);
+
+/**
+ * A formatter which uses each diagnostic's pre-rendered `message`. This is
+ * used when no catalogs have been provided.
+ */
+export const plainMessageFormatter: MessageFormatter = {
+    locale: 'en',
+    format: ({ message }) => message,
+};
+
+/**
+ * Create a formatter which renders diagnostics with a `messageId` using the
+ * first catalog in the locale chain that defines it. Diagnostics without a
+ * `messageId`, or whose ID is in no catalog, use their `message` unchanged.
+ */
+export const createMessageFormatter = ({
+    locale,
+    fallbackLocale,
+    catalogs,
+}: MessageFormatterOptions): MessageFormatter => {
+    const chain = localeChain(locale, fallbackLocale);
+
+    return {
+        locale,
+        format(diagnostic) {
+            const { messageId, message } = diagnostic;
+            if (messageId === undefined) return message;
+            const params = diagnostic.params || {};
+
+            for (const candidate of chain) {
+                const catalog = catalogs[candidate];
+                const entry = catalog && catalog[messageId];
+                if (entry === undefined) continue;
+
+                return formatMessage(
+                    typeof entry === 'string'
+                        ? entry
+                        : selectPluralForm(entry, candidate, params),
+                    params,
+                );
+            }
+
+            return message;
+        },
+    };
+};
+
+/**
+ * The formatter used to render diagnostic messages in a React tree. Provide a
+ * new formatter when the user switches locale to re-render every message.
+ */
+export const MessageFormatterContext = createContext<MessageFormatter>(
+    plainMessageFormatter,
+);
+
+/**
+ * Hook that returns the active `MessageFormatter`, for use with
+ * `Diagnostic.flattenMessages`.
+ */
+export const useMessageFormatter = (): MessageFormatter =>
+    useContext(MessageFormatterContext);
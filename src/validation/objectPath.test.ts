@@ -0,0 +1,78 @@
+import fc from 'fast-check';
+
+import { InvalidObjectPathError, ObjectPath } from './objectPath';
+import { diagnosticsMatching } from './showsDiagnostics';
+
+/**
+ * Property names biased towards the characters which need quoting, mixed
+ * with arbitrary strings and digit-only names.
+ */
+const propertyName = fc.oneof(
+    fc.string(),
+    fc.fullUnicodeString(),
+    fc.stringOf(fc.constantFrom('.', '[', ']', '"', '\\', '*', 'a', '0')),
+    fc.nat().map(String),
+);
+
+const keys = fc.array(fc.oneof(propertyName, fc.nat()));
+
+describe('ObjectPath', () => {
+    it('round-trips any key array through fromArray and toArray', () => {
+        fc.assert(
+            fc.property(keys, parts => {
+                expect(ObjectPath.toArray(ObjectPath.fromArray(parts))).toEqual(
+                    parts,
+                );
+            }),
+        );
+    });
+
+    it('encodes distinct key arrays as distinct paths', () => {
+        fc.assert(
+            fc.property(keys, keys, (a, b) => {
+                fc.pre(JSON.stringify(a) !== JSON.stringify(b));
+                expect(ObjectPath.fromArray(a)).not.toBe(
+                    ObjectPath.fromArray(b),
+                );
+            }),
+        );
+    });
+
+    it('round-trips any key array through a JSON Pointer', () => {
+        fc.assert(
+            fc.property(fc.array(propertyName), parts => {
+                const pointer = ObjectPath.toJsonPointer(
+                    ObjectPath.fromArray(parts),
+                );
+                expect(
+                    ObjectPath.toArray(ObjectPath.fromJsonPointer(pointer, {})),
+                ).toEqual(parts);
+            }),
+        );
+    });
+
+    it('keeps string keys which look like indices distinct', () => {
+        expect(ObjectPath.create('80')).not.toBe(ObjectPath.create(80));
+        expect(ObjectPath.toArray(ObjectPath.create('80'))).toEqual(['80']);
+    });
+
+    describe('malformed quoted segments', () => {
+        const malformed = ['["a', '["a"', '["a"x', '["\\x"]'];
+
+        it('reject patterns with an InvalidObjectPathError', () => {
+            malformed.forEach(pattern => {
+                expect(() => diagnosticsMatching([], pattern)).toThrow(
+                    InvalidObjectPathError,
+                );
+            });
+        });
+
+        it('never match as paths', () => {
+            malformed.forEach(path => {
+                expect(ObjectPath.matches(path as ObjectPath, '**')).toBe(
+                    false,
+                );
+            });
+        });
+    });
+});
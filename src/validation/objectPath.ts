@@ -1,9 +1,13 @@
-import toPath from 'lodash-es/toPath';
 import trimEnd from 'lodash-es/trimEnd';
 
 /**
  * A sequence of property names and indices that locate a value in an object.
  * This should be treated as an opaque type by all consuming code.
+ *
+ * Indices are encoded as `[1]` and property names as `name.`. Property names
+ * which are empty or contain `.`, `[`, `]`, `"` or `\` are quoted, as in
+ * `["a.b"]`, so every sequence of names and indices has exactly one encoding
+ * and the string key `'80'` remains distinct from the index `80`.
  */
 export type ObjectPath = string & { __BRAND__: 'objectPath' & void };
 
@@ -13,22 +17,111 @@ const DELIMITER = '.';
 
 const ACCEPTABLE_SUFFIXES = [undefined, '.', '['];
 
+/**
+ * Property names which can be written without quoting.
+ */
+const PLAIN_NAME = /^[^.[\]"\\]+$/;
+
+const INDEX = /^(0|[1-9]\d*)$/;
+
 const createPart = (part: string | number): ObjectPath => {
-    if (part === '') {
-        return EMPTY;
+    if (typeof part === 'number') {
+        return `[${part}]` as ObjectPath;
     }
 
-    if (typeof part === 'number' || /^\d+$/.test(part)) {
-        return `[${part}]` as ObjectPath;
+    if (PLAIN_NAME.test(part)) {
+        return `${part}.` as ObjectPath;
+    }
+
+    return `[${JSON.stringify(part)}]` as ObjectPath;
+};
+
+interface ParsedSegment {
+    value: string | number;
+    /** Whether the segment was written as a quoted property name. */
+    quoted: boolean;
+}
+
+/**
+ * Error thrown when a path or pattern contains a quoted property name which
+ * is not a valid JSON string followed by `]`, such as `["a]`.
+ */
+export class InvalidObjectPathError extends Error {
+    constructor(
+        /** The path or pattern which could not be parsed. */
+        public readonly path: string,
+    ) {
+        super(`Invalid quoted property name in "${path}"`);
+    }
+}
+
+/**
+ * Read the quoted property name of a `["..."]` segment.
+ *
+ * @throws InvalidObjectPathError if the segment is malformed
+ */
+const parseQuoted = (path: string, start: number, end: number): string => {
+    if (path[end] !== '"' || path[end + 1] !== ']') {
+        throw new InvalidObjectPathError(path);
+    }
+
+    try {
+        return JSON.parse(path.slice(start, end + 1));
+    } catch (e) {
+        throw new InvalidObjectPathError(path);
+    }
+};
+
+/**
+ * Split an encoded path, or a pattern in the same syntax, into its segments.
+ * Bracketed segments which are neither quoted nor numeric are kept as
+ * strings so that wildcards such as `[*]` survive parsing.
+ *
+ * @throws InvalidObjectPathError if a quoted segment is malformed
+ */
+const parse = (path: string): ParsedSegment[] => {
+    const segments: ParsedSegment[] = [];
+    let i = 0;
+
+    while (i < path.length) {
+        if (path[i] === DELIMITER) {
+            i += 1;
+        } else if (path[i] === '[' && path[i + 1] === '"') {
+            let end = i + 2;
+            while (end < path.length && path[end] !== '"') {
+                end += path[end] === '\\' ? 2 : 1;
+            }
+            segments.push({
+                value: parseQuoted(path, i + 1, end),
+                quoted: true,
+            });
+            i = end + 2;
+        } else if (path[i] === '[') {
+            const close = path.indexOf(']', i);
+            const end = close === -1 ? path.length : close;
+            const content = path.slice(i + 1, end);
+            segments.push({
+                value: INDEX.test(content) ? Number(content) : content,
+                quoted: false,
+            });
+            i = end + 1;
+        } else {
+            const match = /[.[]/.exec(path.slice(i));
+            const end = match ? i + match.index : path.length;
+            segments.push({ value: path.slice(i, end), quoted: false });
+            i = end;
+        }
     }
 
-    return `${part}.` as ObjectPath;
+    return segments;
 };
 
 /**
  * Create a new `ObjectPath` for an array of properties
  *
- * @param parts A JSON object path consisting of strings and/or numbers
+ * @param parts A JSON object path consisting of strings and/or numbers.
+ * Numbers are array indices and strings are property names, even if they
+ * consist only of digits.
  */
 const fromArray = (parts: (string | number)[]): ObjectPath => create(...parts);
 
@@ -121,8 +214,250 @@ const startsWith = (path: ObjectPath, prefixVal: ObjectPath): boolean => {
  */
 export const toString = (path: ObjectPath): string => trimEnd(path, DELIMITER);
 
+/**
+ * Convert an `ObjectPath` to the property names and indices it contains.
+ * Passing the result to `ObjectPath.fromArray` produces the same path.
+ *
+ * @throws InvalidObjectPathError if `path` was not created by `ObjectPath`
+ * and contains a malformed quoted segment
+ */
 export const toArray = (path: ObjectPath): (string | number)[] =>
-    toPath(toString(path));
+    parse(path).map(segment => segment.value);
+
+/**
+ * Create a new object path from segments whose kind is not known, such as
+ * those of a JSON Pointer or a dotted field name like `criteria.1.port`.
+ * Segments that look like indices are treated as indices if the container
+ * they address in `root` is an array; if `root` is not provided, all such
+ * segments are treated as indices.
+ *
+ * @param segments The property names or indices, as strings
+ * @param root The value the segments are relative to, if known
+ */
+const fromSegments = (
+    segments: readonly string[],
+    root?: unknown,
+): ObjectPath => {
+    let container = root;
+    return fromArray(
+        segments.map(segment => {
+            const isIndex =
+                INDEX.test(segment) &&
+                (root === undefined || Array.isArray(container));
+            container = isContainer(container) ? container[segment] : undefined;
+            return isIndex ? Number(segment) : segment;
+        }),
+    );
+};
+
+/**
+ * Convert an RFC 6901 JSON Pointer such as `/criteria/1/port` to an object
+ * path. URI fragment pointers such as `#/criteria/1/port` are also accepted.
+ *
+ * Pointers don't distinguish indices from property names, so pass the value
+ * which the pointer addresses as `root` to resolve numeric segments correctly
+ * for string-keyed maps. See `ObjectPath.fromSegments`.
+ *
+ * @param pointer The JSON Pointer
+ * @param root The value the pointer is relative to, if known
+ */
+const fromJsonPointer = (pointer: string, root?: unknown): ObjectPath => {
+    const unfragmented = pointer.startsWith('#')
+        ? decodeURIComponent(pointer.slice(1))
+        : pointer;
+
+    return fromSegments(
+        unfragmented
+            .split('/')
+            .slice(1)
+            .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~')),
+        root,
+    );
+};
+
+/**
+ * Convert an object path to an RFC 6901 JSON Pointer, such as
+ * `/criteria/1/port`. The empty path becomes the empty pointer.
+ */
+const toJsonPointer = (path: ObjectPath): string =>
+    toArray(path)
+        .map(
+            part =>
+                `/${String(part)
+                    .replace(/~/g, '~0')
+                    .replace(/\//g, '~1')}`,
+        )
+        .join('');
+
+/**
+ * A path in the same syntax as `ObjectPath.toString`, such as
+ * `criteria[*].src_port_max`, in which some segments may be wildcards:
+ *
+ * * `*` matches exactly one property name or index
+ * * `**` matches any number of segments, including none
+ *
+ * Patterns match whole paths; end a pattern with `.**` to also match
+ * everything beneath it.
+ */
+export type ObjectPathPattern = string;
+
+/**
+ * Check if the segments of a path match the segments of a pattern, trying
+ * every possible expansion of `**`.
+ */
+const matchSegments = (
+    parts: readonly (string | number)[],
+    pattern: readonly ParsedSegment[],
+): boolean => {
+    if (!pattern.length) return !parts.length;
+
+    const [head, ...rest] = pattern;
+    const isWildcard = !head.quoted && typeof head.value === 'string';
+    if (isWildcard && head.value === '**') {
+        for (let skip = 0; skip <= parts.length; skip++) {
+            if (matchSegments(parts.slice(skip), rest)) return true;
+        }
+        return false;
+    }
+
+    return (
+        parts.length > 0 &&
+        ((isWildcard && head.value === '*') || head.value === parts[0]) &&
+        matchSegments(parts.slice(1), rest)
+    );
+};
+
+/**
+ * Create a predicate which checks paths against a wildcard pattern. Use this
+ * instead of `ObjectPath.matches` when testing many paths, as the pattern is
+ * only parsed once. Malformed paths, such as hand-written ones with an
+ * unterminated quote, never match.
+ *
+ * @param pattern The pattern, such as `criteria[*].src_port_max`
+ *
+ * @throws InvalidObjectPathError if the pattern is malformed
+ */
+const matcher = (
+    pattern: ObjectPathPattern,
+): ((path: ObjectPath) => boolean) => {
+    const patternSegments = parse(pattern);
+    return path => {
+        try {
+            return matchSegments(toArray(path), patternSegments);
+        } catch (e) {
+            if (e instanceof InvalidObjectPathError) return false;
+            throw e;
+        }
+    };
+};
+
+/**
+ * Returns true if `path` matches the wildcard `pattern`.
+ *
+ * @param path The path to test
+ * @param pattern The pattern, such as `criteria[*].src_port_max`
+ *
+ * @throws InvalidObjectPathError if the pattern is malformed
+ */
+const matches = (path: ObjectPath, pattern: ObjectPathPattern): boolean =>
+    matcher(pattern)(path);
+
+/**
+ * Error thrown when writing to an `ObjectPath` whose parent containers do not
+ * all exist in the target value. Paths are never created implicitly, since
+ * the type of the missing container - array or object - can't be known.
+ */
+export class MissingContainerError extends Error {
+    constructor(
+        /** The path which was being written. */
+        public readonly path: ObjectPath,
+        /** The path of the first missing or non-object container. */
+        public readonly containerPath: ObjectPath,
+    ) {
+        super(
+            `Cannot set "${toString(path)}": "${toString(
+                containerPath,
+            )}" is not an object or array`,
+        );
+    }
+}
+
+interface Container {
+    [key: string]: unknown;
+}
+
+const isContainer = (value: unknown): value is Container =>
+    typeof value === 'object' && value !== null;
+
+/**
+ * Read the value at `path` within `root`. Missing containers along the path
+ * produce `undefined` rather than an error.
+ *
+ * @param root The value to read from
+ * @param path The location of the value, relative to `root`
+ */
+const get = (root: unknown, path: ObjectPath): unknown =>
+    toArray(path).reduce<unknown>(
+        (value, part) => (isContainer(value) ? value[part] : undefined),
+        root,
+    );
+
+/**
+ * Create a copy of `root` with the value at `path` replaced by the result of
+ * `updater`. Only the containers along the path are copied, so untouched
+ * siblings remain referentially equal as `ControlledInput` requires. If the
+ * updater returns the current value, `root` itself is returned.
+ *
+ * @param root The value to update
+ * @param path The location of the value to replace, relative to `root`
+ * @param updater Produces the new value from the current one
+ *
+ * @throws MissingContainerError if a container along the path is absent
+ */
+const update = <T>(
+    root: T,
+    path: ObjectPath,
+    updater: (current: unknown) => unknown,
+): T => {
+    const parts = toArray(path);
+
+    const updateAt = (value: unknown, depth: number): unknown => {
+        if (depth === parts.length) return updater(value);
+
+        if (!isContainer(value)) {
+            throw new MissingContainerError(
+                path,
+                fromArray(parts.slice(0, depth)),
+            );
+        }
+
+        const part = parts[depth];
+        const child = value[part];
+        const newChild = updateAt(child, depth + 1);
+        if (newChild === child && part in value) return value;
+
+        const copy = (Array.isArray(value)
+            ? value.slice()
+            : { ...value }) as Container;
+        copy[part] = newChild;
+        return copy;
+    };
+
+    return updateAt(root, 0) as T;
+};
+
+/**
+ * Create a copy of `root` with the value at `path` replaced. See
+ * `ObjectPath.update` for how copies are made.
+ *
+ * @param root The value to update
+ * @param path The location of the value to replace, relative to `root`
+ * @param value The new value
+ *
+ * @throws MissingContainerError if a container along the path is absent
+ */
+const set = <T>(root: T, path: ObjectPath, value: unknown): T =>
+    update(root, path, () => value);
 
 export const ObjectPath = {
     EMPTY,
@@ -134,4 +469,12 @@ export const ObjectPath = {
     startsWith,
     toString,
     toArray,
+    fromSegments,
+    fromJsonPointer,
+    toJsonPointer,
+    matcher,
+    matches,
+    get,
+    set,
+    update,
 };
@@ -0,0 +1,31 @@
+import { Diagnostic, DiagnosticKey } from './diagnostic';
+import { ObjectPath } from './objectPath';
+import { ServerDiagnostics } from './serverDiagnostics';
+import { validators } from './validators';
+
+describe('ServerDiagnostics', () => {
+    const errors = ServerDiagnostics.fromFieldErrors([
+        { field: 'port', message: 'Port is in use' },
+        { field: 'port', message: 'Port is reserved' },
+    ]);
+
+    it('gives each message on a field its own key', () => {
+        const [inUse, reserved] = errors;
+
+        expect(DiagnosticKey.of(inUse)).not.toBe(DiagnosticKey.of(reserved));
+        expect(Diagnostic.diff(errors, [reserved])).toEqual({
+            added: [],
+            removed: [inUse],
+            changed: [],
+            unchanged: [reserved],
+        });
+    });
+
+    it('tells server diagnostics from local ones', () => {
+        const local = validators.required()('');
+
+        expect(errors.every(ServerDiagnostics.isFromServer)).toBe(true);
+        expect(local.some(ServerDiagnostics.isFromServer)).toBe(false);
+        expect(errors[0].path).toBe(ObjectPath.create('port'));
+    });
+});
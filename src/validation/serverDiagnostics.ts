@@ -0,0 +1,183 @@
+import toPath from 'lodash-es/toPath';
+
+import { Diagnostic } from './diagnostic';
+import { ObjectPath } from './objectPath';
+import { Severity } from './severity';
+
+/**
+ * An entry in a list of field errors, such as
+ * `{ field: 'criteria.1.port', message: 'Port is in use' }`.
+ */
+export interface FieldError {
+    /** Dotted or bracketed path to the field, e.g. `criteria[1].port`. */
+    field: string;
+    message: string;
+}
+
+/**
+ * An RFC 7807 problem details body. Field errors are read from the
+ * `invalid-params` extension member described in the RFC, or from an
+ * `errors` member whose entries locate the field with a JSON Pointer.
+ */
+export interface ProblemDetails {
+    type?: string;
+    title?: string;
+    status?: number;
+    detail?: string;
+    'invalid-params'?: {
+        name?: string;
+        pointer?: string;
+        reason?: string;
+    }[];
+    errors?: {
+        pointer?: string;
+        source?: { pointer?: string };
+        detail?: string;
+        title?: string;
+    }[];
+}
+
+/**
+ * Server diagnostics are typed `server:` followed by their message, so that
+ * several errors for one field have distinct `DiagnosticKey`s.
+ */
+const SERVER_TYPE_PREFIX = 'server:';
+
+const createServerDiagnostic = (
+    path: ObjectPath,
+    message: string,
+): Diagnostic => ({
+    type: `${SERVER_TYPE_PREFIX}${message}`,
+    severity: Severity.Error,
+    message,
+    path,
+});
+
+const pathFromField = (field: string, root?: unknown): ObjectPath =>
+    ObjectPath.fromSegments(toPath(field), root);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+export const ServerDiagnostics = {
+    /**
+     * Convert a list of `{ field, message }` errors to diagnostics.
+     *
+     * @param errors The field errors
+     * @param root The value that was sent to the server. If provided, this
+     * is used to tell indices from numeric keys in field names.
+     */
+    fromFieldErrors: (
+        errors: readonly FieldError[],
+        root?: unknown,
+    ): Diagnostic[] =>
+        errors.map(({ field, message }) =>
+            createServerDiagnostic(pathFromField(field, root), message),
+        ),
+
+    /**
+     * Convert an RFC 7807 problem details body to diagnostics. If the body
+     * does not identify any fields, a single root-level diagnostic with the
+     * `detail` or `title` is returned.
+     *
+     * @param problem The problem details body
+     * @param root The value that was sent to the server. If provided, this
+     * is used to tell indices from numeric keys in pointers and field names.
+     */
+    fromProblemDetails: (
+        problem: ProblemDetails,
+        root?: unknown,
+    ): Diagnostic[] => {
+        const invalidParams = (problem['invalid-params'] || []).map(param =>
+            createServerDiagnostic(
+                param.pointer !== undefined
+                    ? ObjectPath.fromJsonPointer(param.pointer, root)
+                    : pathFromField(param.name || '', root),
+                param.reason || problem.title || '',
+            ),
+        );
+        const errors = (problem.errors || []).map(error => {
+            const pointer =
+                error.pointer !== undefined
+                    ? error.pointer
+                    : error.source && error.source.pointer;
+            return createServerDiagnostic(
+                pointer
+                    ? ObjectPath.fromJsonPointer(pointer, root)
+                    : ObjectPath.EMPTY,
+                error.detail || error.title || problem.title || '',
+            );
+        });
+
+        const diagnostics = [...invalidParams, ...errors];
+        if (diagnostics.length) return diagnostics;
+
+        const message = problem.detail || problem.title;
+        return message
+            ? [createServerDiagnostic(ObjectPath.EMPTY, message)]
+            : [];
+    },
+
+    /**
+     * Convert an error response body in any of the supported formats to
+     * diagnostics. Bodies in unrecognized formats produce no diagnostics.
+     *
+     * @param body The parsed JSON body of the error response
+     * @param root The value that was sent to the server, if known
+     */
+    fromResponseBody: (body: unknown, root?: unknown): Diagnostic[] => {
+        if (
+            Array.isArray(body) &&
+            body.every(
+                entry =>
+                    isObject(entry) &&
+                    typeof entry.field === 'string' &&
+                    typeof entry.message === 'string',
+            )
+        ) {
+            return ServerDiagnostics.fromFieldErrors(body, root);
+        }
+
+        if (
+            isObject(body) &&
+            ('invalid-params' in body ||
+                'errors' in body ||
+                'detail' in body ||
+                'title' in body)
+        ) {
+            return ServerDiagnostics.fromProblemDetails(
+                body as ProblemDetails,
+                root,
+            );
+        }
+
+        return [];
+    },
+
+    /**
+     * Returns `true` if the diagnostic was reported by the server rather than
+     * by a local validator.
+     */
+    isFromServer: ({ type }: Diagnostic): boolean =>
+        type.startsWith(SERVER_TYPE_PREFIX),
+
+    /**
+     * Find the server diagnostics which still apply after the value changes
+     * from `previous` to `next`. A diagnostic is kept only while the value at
+     * its path is referentially unchanged, which the `ControlledInput`
+     * contract guarantees for values the user did not edit.
+     */
+    retainUnchanged: <T>(
+        diagnostics: readonly Diagnostic[],
+        previous: T,
+        next: T,
+    ): Diagnostic[] =>
+        diagnostics.filter(d => {
+            if (!ServerDiagnostics.isFromServer(d)) return false;
+
+            return (
+                ObjectPath.get(previous, d.path) ===
+                ObjectPath.get(next, d.path)
+            );
+        }),
+};
@@ -1,6 +1,8 @@
-import { ObjectPath } from './objectPath';
+import { useEffect, useMemo, useRef } from 'react';
+
+import { ObjectPath, ObjectPathPattern } from './objectPath';
 import { Validator } from './validator';
-import { Diagnostic } from './diagnostic';
+import { Diagnostic, DiagnosticDiff } from './diagnostic';
 
 /**
  * Props for a component that is capable of showing errors and warnings.
@@ -39,6 +41,20 @@ export const diagnosticsFor = (
     return msgs.filter(d => Diagnostic.isFor(d, pathPrefix));
 };
 
+/**
+ * Find all diagnostics in the given list whose `path` property matches the
+ * given wildcard pattern, such as `criteria[*].src_port_max`.
+ *
+ * @throws InvalidObjectPathError if the pattern is malformed
+ */
+export const diagnosticsMatching = (
+    msgs: Diagnostic[],
+    pattern: ObjectPathPattern,
+): Diagnostic[] => {
+    const isMatch = ObjectPath.matcher(pattern);
+    return msgs.filter(d => isMatch(d.path));
+};
+
 /**
  * HOF that returns a function to get errors for a named field from a
  * component's props. This is exposed as `useDiagnosticsGetter` for function
@@ -57,10 +73,26 @@ const diagnosticGetterImplementation = (
         return [];
     }
 
-    return diagnosticsFor(
+    const basePath = modelPath || ObjectPath.EMPTY;
+    const matches = diagnosticsFor(
         diagnostics,
-        ObjectPath.extend(modelPath || ObjectPath.EMPTY, prop),
+        ObjectPath.extend(basePath, prop),
     );
+
+    // Field names are always strings, so list items typically receive their
+    // index as a string of digits. Diagnostics for the item will be keyed by
+    // the numeric index, so look for those as well.
+    if (/^\d+$/.test(prop)) {
+        return [
+            ...matches,
+            ...diagnosticsFor(
+                diagnostics,
+                ObjectPath.extend(basePath, Number(prop)),
+            ),
+        ];
+    }
+
+    return matches;
 };
 
 /**
@@ -83,3 +115,27 @@ export const diagnosticsGetterFor = (
     c: React.Component<ShowsDiagnostics>,
 ): Validator<string> => fieldName =>
     diagnosticGetterImplementation(c.props)(fieldName);
+
+/**
+ * Hook that compares a list of diagnostics to the list passed on the previous
+ * render, so components can animate newly-appearing errors or announce
+ * resolved ones. On the first render, every diagnostic is `added`.
+ *
+ * @param diagnostics The current diagnostics, such as `Entity#diagnostics`
+ */
+export const useDiagnosticsDiff = (
+    diagnostics: Diagnostic[] | undefined,
+): DiagnosticDiff => {
+    const current = diagnostics || [];
+    const previous = useRef<Diagnostic[]>([]);
+
+    const diff = useMemo(() => Diagnostic.diff(previous.current, current), [
+        diagnostics,
+    ]);
+
+    useEffect(() => {
+        previous.current = current;
+    }, [diagnostics]);
+
+    return diff;
+};
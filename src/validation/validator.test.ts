@@ -0,0 +1,106 @@
+import { ObjectPath } from './objectPath';
+import { validateProperty, Validator } from './validator';
+import { validators } from './validators';
+
+interface Row {
+    name: string;
+}
+
+const ROW_COUNT = 1000;
+
+const createRows = (): Row[] =>
+    Array.from({ length: ROW_COUNT }, (_, i) => ({ name: `row ${i}` }));
+
+/**
+ * Create a row validator which counts how often it runs.
+ */
+const countingValidator = () => {
+    const counter = { calls: 0 };
+    const validator: Validator<Row> = row => {
+        counter.calls += 1;
+        return validateProperty('name', validators.required(), row.name);
+    };
+
+    return { counter, validator };
+};
+
+/**
+ * Apply one edit to a list of rows, creating new references for only the
+ * changed row as `ControlledInput` requires.
+ */
+const editRow = (rows: Row[], index: number, name: string): Row[] =>
+    rows.map((row, i) => (i === index ? { name } : row));
+
+describe('Validator.memoize', () => {
+    it('only revalidates the changed row when editing a large list', () => {
+        const plain = countingValidator();
+        const memoized = countingValidator();
+        const validatePlain = Validator.forList(plain.validator);
+        const validateMemoized = Validator.forList(memoized.validator, {
+            memoize: true,
+        });
+
+        let rows = createRows();
+        validatePlain(rows);
+        validateMemoized(rows);
+
+        for (let i = 0; i < 10; i++) {
+            rows = editRow(rows, i, i % 2 ? `edit ${i}` : '');
+            expect(validateMemoized(rows)).toEqual(validatePlain(rows));
+        }
+
+        expect(plain.counter.calls).toBe(ROW_COUNT * 11);
+        expect(memoized.counter.calls).toBe(ROW_COUNT + 10);
+    });
+
+    it('keeps cached diagnostics relative to the validated value', () => {
+        const { validator } = countingValidator();
+        const validate = Validator.forList(validator, { memoize: true });
+        const rows = editRow(createRows(), 3, '');
+
+        const path = ObjectPath.create(3, 'name');
+        expect(validate(rows)[0].path).toBe(path);
+        expect(validate(rows)[0].path).toBe(path);
+    });
+
+    it('reuses results for an unchanged primitive', () => {
+        let calls = 0;
+        const isPositive = validators.range({ min: 0 });
+        const validate = Validator.memoize((value: number) => {
+            calls += 1;
+            return isPositive(value);
+        });
+
+        validate(-1);
+        validate(-1);
+        validate(2);
+        validate(-1);
+
+        expect(calls).toBe(3);
+    });
+});
+
+describe('Validator.forUnion', () => {
+    type Shape =
+        | { kind: 'circle'; radius: number }
+        | { kind: 'square'; side: number };
+
+    const validate = Validator.forUnion<Shape, 'kind'>('kind', {
+        circle: value =>
+            validateProperty(
+                'radius',
+                validators.range({ min: 0 }),
+                value.radius,
+            ),
+    });
+
+    it('runs the validator for the variant', () => {
+        expect(validate({ kind: 'circle', radius: -1 })).toHaveLength(1);
+        expect(validate({ kind: 'square', side: -1 })).toEqual([]);
+    });
+
+    it('ignores variant names inherited from Object.prototype', () => {
+        const value = ({ kind: 'constructor' } as unknown) as Shape;
+        expect(validate(value)).toEqual([]);
+    });
+});
@@ -11,6 +11,42 @@ import { Diagnostic } from './diagnostic';
  */
 export type Validator<T> = (value: T) => Diagnostic[];
 
+/**
+ * Per-property validators for an object of type `T`. Properties without a
+ * validator are not checked.
+ */
+export type ObjectValidators<T> = { [K in keyof T]?: Validator<T[K]> };
+
+/**
+ * Per-variant validators for a discriminated union `T`, keyed by the value of
+ * the discriminant property `D`. Each validator receives only its variant.
+ */
+export type UnionValidators<T, D extends keyof T> = {
+    [V in Extract<T[D], string | number>]?: Validator<
+        Extract<T, { [P in D]: V }>
+    >;
+};
+
+/**
+ * Options for validators that run child validators over parts of a value.
+ */
+export interface CombinatorOptions {
+    /**
+     * When `true`, each child validator is wrapped with `Validator.memoize`,
+     * so subtrees which are referentially unchanged since an earlier run
+     * reuse their prior diagnostics instead of being validated again.
+     *
+     * The combined validator must itself be kept between runs, for example
+     * by declaring it at module level, for this to have any effect.
+     */
+    memoize?: boolean;
+}
+
+const memoizeIf = <T>(
+    validator: Validator<T>,
+    { memoize }: CombinatorOptions,
+): Validator<T> => (memoize ? Validator.memoize(validator) : validator);
+
 export const Validator = {
     /**
      * Create a new validator which will be executed over each item in a list,
@@ -19,9 +55,16 @@ export const Validator = {
      * This can be used in conjunction with `validateProperty`.
      *
      * @param validator The validator function to apply to each item
+     * @param options Set `memoize` to skip items which have not changed
      */
-    forList: <T>(validator: Validator<T>): Validator<T[]> => items =>
-        flatMap(items, (v, i) => validateProperty(i, validator, v)),
+    forList: <T>(
+        validator: Validator<T>,
+        options: CombinatorOptions = {},
+    ): Validator<T[]> => {
+        const itemValidator = memoizeIf(validator, options);
+        return items =>
+            flatMap(items, (v, i) => validateProperty(i, itemValidator, v));
+    },
     /**
      * Create a new validator which runs all the provided validators and returns
      * the combined results.
@@ -30,6 +73,128 @@ export const Validator = {
      */
     combine: <T>(...validators: readonly Validator<T>[]): Validator<T> => val =>
         flatMap(validators, fn => fn(val)),
+    /**
+     * Create a new validator which runs the validator for each listed property
+     * of an object, adding the property name to the paths of any emitted
+     * diagnostics.
+     *
+     * @param validators The validators to apply, keyed by property name
+     * @param options Set `memoize` to skip properties which have not changed
+     */
+    forObject: <T>(
+        validators: ObjectValidators<T>,
+        options: CombinatorOptions = {},
+    ): Validator<T> => {
+        const keys = Object.keys(validators) as (keyof T & string)[];
+        const propertyValidators: ObjectValidators<T> = {};
+        keys.forEach(key => {
+            const validator: Validator<T[typeof key]> | undefined =
+                validators[key];
+            if (validator) {
+                propertyValidators[key] = memoizeIf(validator, options);
+            }
+        });
+
+        return value =>
+            flatMap(keys, key => {
+                const validator: Validator<T[typeof key]> | undefined =
+                    propertyValidators[key];
+                return validator
+                    ? validateProperty(key, validator, value[key])
+                    : [];
+            });
+    },
+    /**
+     * Create a new validator which will be executed over each value in a
+     * string-keyed map, adding the key to the paths of any emitted diagnostics.
+     *
+     * @param validator The validator function to apply to each value
+     * @param options Set `memoize` to skip values which have not changed
+     */
+    forRecord: <V>(
+        validator: Validator<V>,
+        options: CombinatorOptions = {},
+    ): Validator<Record<string, V>> => {
+        const valueValidator = memoizeIf(validator, options);
+        return record =>
+            flatMap(Object.keys(record), key =>
+                validateProperty(key, valueValidator, record[key]),
+            );
+    },
+    /**
+     * Create a new validator which only runs when `predicate` returns `true`
+     * for the value, such as for rules that depend on another field.
+     *
+     * @param predicate Decides whether `validator` applies to the value
+     * @param validator The validator to run when the predicate passes
+     */
+    when: <T>(
+        predicate: (value: T) => boolean,
+        validator: Validator<T>,
+    ): Validator<T> => value => (predicate(value) ? validator(value) : []),
+    /**
+     * Create a new validator for a discriminated union, which runs the
+     * validator registered for the variant named by the `discriminant`
+     * property. Variants without a validator are not checked.
+     *
+     * @param discriminant The property which identifies the variant
+     * @param validators The validators to apply, keyed by variant
+     */
+    forUnion: <T, D extends keyof T>(
+        discriminant: D,
+        validators: UnionValidators<T, D>,
+    ): Validator<T> => value => {
+        const variant = (value[discriminant] as unknown) as keyof UnionValidators<
+            T,
+            D
+        >;
+        // Variant names such as `constructor` must not find inherited members.
+        const validator = Object.prototype.hasOwnProperty.call(
+            validators,
+            variant,
+        )
+            ? (validators[variant] as Validator<T> | undefined)
+            : undefined;
+        return validator ? validator(value) : [];
+    },
+    /**
+     * Create a validator which remembers its results, and returns them again
+     * instead of rerunning `validator` when given a value it has already
+     * checked. Objects are compared by reference, relying on the
+     * `ControlledInput` contract that changed values are new objects; each
+     * object's results are kept until it is garbage-collected. Primitives are
+     * compared with the most recent value only.
+     *
+     * `validator` must be a pure function of its input.
+     *
+     * @param validator The validator whose results should be reused
+     */
+    memoize: <T>(validator: Validator<T>): Validator<T> => {
+        const byObject = new WeakMap<object, Diagnostic[]>();
+        let lastPrimitive: [T, Diagnostic[]] | null = null;
+
+        return value => {
+            let diagnostics: Diagnostic[] | undefined;
+
+            if (typeof value === 'object' && value !== null) {
+                const key = (value as unknown) as object;
+                diagnostics = byObject.get(key);
+                if (!diagnostics) {
+                    diagnostics = validator(value);
+                    byObject.set(key, diagnostics);
+                }
+            } else if (lastPrimitive && lastPrimitive[0] === value) {
+                diagnostics = lastPrimitive[1];
+            } else {
+                diagnostics = validator(value);
+                lastPrimitive = [value, diagnostics];
+            }
+
+            // `validateProperty` rewrites paths in place, so callers get
+            // copies to keep the cached diagnostics relative to `value`.
+            return diagnostics.map(d => ({ ...d }));
+        };
+    },
 };
 
 /**
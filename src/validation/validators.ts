@@ -0,0 +1,359 @@
+import { Diagnostic } from './diagnostic';
+import { isCidr, isEmail, isHostname, isIpAddress } from './formats';
+import { formatMessage, MessageParams, MessageTemplate } from './messages';
+import { ObjectPath } from './objectPath';
+import { Severity } from './severity';
+import { Validator } from './validator';
+
+/**
+ * The `type` values emitted by the built-in validators. These are stable, so
+ * they are safe to use in `DiagnosticKey`s and when filtering diagnostics.
+ */
+export enum DiagnosticType {
+    Required = 'required',
+    MinLength = 'minLength',
+    MaxLength = 'maxLength',
+    Pattern = 'pattern',
+    Range = 'range',
+    Integer = 'integer',
+    OneOf = 'oneOf',
+    Email = 'email',
+    Hostname = 'hostname',
+    IpAddress = 'ipAddress',
+    Cidr = 'cidr',
+    Port = 'port',
+}
+
+/**
+ * The parameters of a `range` diagnostic. Bounds which were not given are
+ * absent.
+ */
+export type RangeParams =
+    | { min: number; max: number; value: number }
+    | { min: number; value: number }
+    | { max: number; value: number }
+    | { value: number };
+
+export interface ValidatorOptions<P extends MessageParams = MessageParams> {
+    /**
+     * The severity of emitted diagnostics. Defaults to `Severity.Error`.
+     */
+    severity?: Severity;
+    /**
+     * Replacement for the built-in English message.
+     */
+    message?: MessageTemplate<P>;
+    /**
+     * The catalog key for the message. When neither this nor `message` is
+     * set, the `DiagnosticType` is used, so catalogs can translate the
+     * built-in messages by type.
+     */
+    messageId?: string;
+}
+
+/**
+ * Create a root-level diagnostic, rendering its message from the options or
+ * the built-in template.
+ */
+const createDiagnostic = <P extends MessageParams>(
+    type: DiagnosticType,
+    defaultMessage: MessageTemplate<P>,
+    options: ValidatorOptions<P>,
+    params: P,
+): Diagnostic => {
+    const messageId = options.messageId || (options.message ? undefined : type);
+
+    return {
+        type,
+        severity: options.severity || Severity.Error,
+        message: formatMessage(options.message || defaultMessage, params),
+        ...(messageId ? { messageId, params } : {}),
+        path: ObjectPath.EMPTY,
+    };
+};
+
+/**
+ * Check if a value should be treated as absent. Validators other than
+ * `required` skip absent values, so they can be applied to optional fields.
+ */
+const isEmpty = (value: unknown): boolean =>
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0);
+
+/**
+ * Create a validator which emits a single root-level diagnostic when `isValid`
+ * returns `false` for a non-empty value.
+ */
+const check = <T, P extends MessageParams>(
+    type: DiagnosticType,
+    defaultMessage: MessageTemplate<P>,
+    options: ValidatorOptions<P>,
+    isValid: (value: T) => boolean,
+    getParams: (value: T) => P,
+): Validator<T | null | undefined> => value => {
+    if (value === null || value === undefined || isEmpty(value)) return [];
+    if (isValid(value)) return [];
+
+    return [createDiagnostic(type, defaultMessage, options, getParams(value))];
+};
+
+/**
+ * Create a length validator whose built-in message counts characters for
+ * strings and items for lists.
+ */
+const checkLength = <P extends MessageParams>(
+    type: DiagnosticType,
+    defaultMessages: { characters: string; items: string },
+    options: ValidatorOptions<P>,
+    isValid: (value: string | readonly unknown[]) => boolean,
+    getParams: (value: string | readonly unknown[]) => P,
+): Validator<string | readonly unknown[] | null | undefined> => {
+    const forStrings = check(
+        type,
+        defaultMessages.characters,
+        options,
+        isValid,
+        getParams,
+    );
+    const forLists = check(
+        type,
+        defaultMessages.items,
+        options,
+        isValid,
+        getParams,
+    );
+
+    return value =>
+        typeof value === 'string' ? forStrings(value) : forLists(value);
+};
+
+const ipVersionLabel = (version?: 4 | 6): string =>
+    version ? `IPv${version} ` : 'IP ';
+
+/**
+ * Factories for common validators. Every validator emits diagnostics at the
+ * root of the value it checks with a `type` from `DiagnosticType`, so combine
+ * them with `validateProperty` or `Validator.forList` to locate the field.
+ *
+ * All validators except `required` ignore `null`, `undefined`, blank strings
+ * and empty arrays.
+ *
+ * @public
+ */
+export const validators = {
+    /**
+     * Require that a value is present, non-blank, and not an empty array.
+     */
+    required: (
+        options: ValidatorOptions<{}> = {},
+    ): Validator<unknown> => value =>
+        isEmpty(value)
+            ? [
+                  createDiagnostic(
+                      DiagnosticType.Required,
+                      'This field is required',
+                      options,
+                      {},
+                  ),
+              ]
+            : [],
+
+    /**
+     * Require a string or list to have at least `min` characters or items.
+     * The message template receives `{min}` and `{length}`.
+     */
+    minLength: (
+        min: number,
+        options: ValidatorOptions<{ min: number; length: number }> = {},
+    ) =>
+        checkLength<{ min: number; length: number }>(
+            DiagnosticType.MinLength,
+            {
+                characters: 'Must have at least {min} characters',
+                items: 'Must have at least {min} items',
+            },
+            options,
+            value => value.length >= min,
+            value => ({ min, length: value.length }),
+        ),
+
+    /**
+     * Require a string or list to have at most `max` characters or items.
+     * The message template receives `{max}` and `{length}`.
+     */
+    maxLength: (
+        max: number,
+        options: ValidatorOptions<{ max: number; length: number }> = {},
+    ) =>
+        checkLength<{ max: number; length: number }>(
+            DiagnosticType.MaxLength,
+            {
+                characters: 'Must have at most {max} characters',
+                items: 'Must have at most {max} items',
+            },
+            options,
+            value => value.length <= max,
+            value => ({ max, length: value.length }),
+        ),
+
+    /**
+     * Require a string to match a regular expression. The message template
+     * receives the expression source as `{pattern}`.
+     */
+    pattern: (
+        regex: RegExp,
+        options: ValidatorOptions<{ pattern: string }> = {},
+    ) =>
+        check<string, { pattern: string }>(
+            DiagnosticType.Pattern,
+            'Must match the pattern {pattern}',
+            options,
+            value => {
+                // Global and sticky expressions are stateful, so reset them
+                // to make sure every call checks the whole string.
+                regex.lastIndex = 0;
+                return regex.test(value);
+            },
+            () => ({ pattern: regex.source }),
+        ),
+
+    /**
+     * Require a number to fall within inclusive bounds. Either bound may be
+     * omitted, and `NaN` is always rejected. The message template receives
+     * `{value}`, and `{min}` and `{max}` when those bounds are given.
+     */
+    range: (
+        { min, max }: { min?: number; max?: number },
+        options: ValidatorOptions<RangeParams> = {},
+    ) =>
+        check<number, RangeParams>(
+            DiagnosticType.Range,
+            min !== undefined && max !== undefined
+                ? 'Must be between {min} and {max}'
+                : min !== undefined
+                ? 'Must be at least {min}'
+                : max !== undefined
+                ? 'Must be at most {max}'
+                : 'Must be a number',
+            options,
+            value =>
+                !isNaN(value) &&
+                (min === undefined || value >= min) &&
+                (max === undefined || value <= max),
+            value => ({
+                ...(min === undefined ? {} : { min }),
+                ...(max === undefined ? {} : { max }),
+                value,
+            }),
+        ),
+
+    /**
+     * Require a number to be a whole number. The message template receives
+     * `{value}`.
+     */
+    integer: (options: ValidatorOptions<{ value: number }> = {}) =>
+        check<number, { value: number }>(
+            DiagnosticType.Integer,
+            'Must be a whole number',
+            options,
+            value => Number.isInteger(value),
+            value => ({ value }),
+        ),
+
+    /**
+     * Require a value to be one of a fixed set, compared with `===`. The
+     * message template receives the allowed values as `{values}`.
+     */
+    oneOf: <T extends string | number | boolean>(
+        values: readonly T[],
+        options: ValidatorOptions<{ values: readonly T[] }> = {},
+    ) =>
+        check<T, { values: readonly T[] }>(
+            DiagnosticType.OneOf,
+            'Must be one of {values}',
+            options,
+            value => values.indexOf(value) !== -1,
+            () => ({ values }),
+        ),
+
+    /**
+     * Require a string to look like an email address: a local part, an `@`
+     * and a valid hostname. The message template receives `{value}`.
+     */
+    email: (options: ValidatorOptions<{ value: string }> = {}) =>
+        check<string, { value: string }>(
+            DiagnosticType.Email,
+            'Must be a valid email address',
+            options,
+            isEmail,
+            value => ({ value }),
+        ),
+
+    /**
+     * Require a string to be an RFC 1123 hostname. The message template
+     * receives `{value}`.
+     */
+    hostname: (options: ValidatorOptions<{ value: string }> = {}) =>
+        check<string, { value: string }>(
+            DiagnosticType.Hostname,
+            'Must be a valid hostname',
+            options,
+            isHostname,
+            value => ({ value }),
+        ),
+
+    /**
+     * Require a string to be an IPv4 or IPv6 address, optionally restricted
+     * to one version. The message template receives `{value}` and `{version}`,
+     * which is `'any'` when unrestricted.
+     */
+    ipAddress: (
+        version?: 4 | 6,
+        options: ValidatorOptions<{
+            value: string;
+            version: 4 | 6 | 'any';
+        }> = {},
+    ) =>
+        check<string, { value: string; version: 4 | 6 | 'any' }>(
+            DiagnosticType.IpAddress,
+            `Must be a valid ${ipVersionLabel(version)}address`,
+            options,
+            value => isIpAddress(value, version),
+            value => ({ value, version: version || 'any' }),
+        ),
+
+    /**
+     * Require a string to be a CIDR block such as `10.0.0.0/8`, optionally
+     * restricted to one IP version. The message template receives `{value}`
+     * and `{version}`, which is `'any'` when unrestricted.
+     */
+    cidr: (
+        version?: 4 | 6,
+        options: ValidatorOptions<{
+            value: string;
+            version: 4 | 6 | 'any';
+        }> = {},
+    ) =>
+        check<string, { value: string; version: 4 | 6 | 'any' }>(
+            DiagnosticType.Cidr,
+            `Must be a valid ${ipVersionLabel(version)}CIDR block`,
+            options,
+            value => isCidr(value, version),
+            value => ({ value, version: version || 'any' }),
+        ),
+
+    /**
+     * Require a number to be a valid TCP/UDP port, from 1 to 65535. The
+     * message template receives `{value}`.
+     */
+    port: (options: ValidatorOptions<{ value: number }> = {}) =>
+        check<number, { value: number }>(
+            DiagnosticType.Port,
+            'Must be a port number between 1 and 65535',
+            options,
+            value => Number.isInteger(value) && value >= 1 && value <= 65535,
+            value => ({ value }),
+        ),
+};